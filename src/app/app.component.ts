@@ -1,7 +1,13 @@
 import { Component, inject } from '@angular/core';
-import { RouterOutlet } from '@angular/router';
+import { ActivatedRouteSnapshot, Router, RouterOutlet } from '@angular/router';
+import { fromEvent } from 'rxjs';
+import { filter, switchMap } from 'rxjs/operators';
 import { WeatherforecastService } from './weatherforecast.service';
 import { MenuComponent } from "./menu/menu.component";
+import { IdleService } from './services/idle.service';
+import { AuthService } from './auth/auth.service';
+import { authGuard } from './auth/auth.guard';
+import { roleGuard } from './auth/role.guard';
 
 @Component({
   selector: 'app-root',
@@ -10,5 +16,35 @@ import { MenuComponent } from "./menu/menu.component";
   styleUrl: './app.component.css',
 })
 export class AppComponent {
- 
+  private idleService = inject(IdleService);
+  private authService = inject(AuthService);
+  private router = inject(Router);
+
+  constructor() {
+    // Log out users who leave the app open without using it
+    this.idleService.start();
+
+    // Signed out in another tab or from another device - don't keep showing protected pages here
+    this.authService.signedOutElsewhere$.subscribe(() => {
+      if (this.isOnProtectedPage()) {
+        this.router.navigate(['/login'], { queryParams: { returnUrl: this.router.url } });
+      }
+    });
+
+    // Re-check the session when the user comes back to this tab,
+    // so a session revoked from another device is noticed right away
+    fromEvent(document, 'visibilitychange').pipe(
+      filter(() => document.visibilityState === 'visible' && this.authService.isAuthenticated()),
+      switchMap(() => this.authService.getCurrentUser())
+    ).subscribe();
+  }
+
+  private isOnProtectedPage(): boolean {
+    let route: ActivatedRouteSnapshot = this.router.routerState.snapshot.root;
+    while (route.firstChild) {
+      route = route.firstChild;
+    }
+    const guards = route.routeConfig?.canActivate ?? [];
+    return guards.includes(authGuard) || guards.includes(roleGuard);
+  }
 }
@@ -1,11 +1,21 @@
-import { ApplicationConfig, provideZoneChangeDetection } from '@angular/core';
+import { ApplicationConfig, inject, provideAppInitializer, provideZoneChangeDetection } from '@angular/core';
 import { provideRouter, withComponentInputBinding } from '@angular/router';
 
 import { routes } from './app.routes';
-import { provideHttpClient, withFetch } from '@angular/common/http';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { AuthService } from './auth/auth.service';
+import { authInterceptor } from './auth/auth.interceptor';
+import { fakeBackendInterceptor } from './fake-backend/fake-backend.interceptor';
+import { environment } from '../environments/environment';
 
 export const appConfig: ApplicationConfig = {
   providers: [provideZoneChangeDetection({ eventCoalescing: true }), provideRouter(routes, withComponentInputBinding()),
-    provideHttpClient(withFetch())
+    // Default XHR backend on purpose - withFetch() can't report upload progress (profile picture upload)
+    provideHttpClient(withInterceptors([
+      authInterceptor,
+      // Answers /api calls in the browser when environment.fakeBackend.enabled is set
+      ...(environment.fakeBackend.enabled ? [fakeBackendInterceptor] : [])
+    ])),
+    provideAppInitializer(() => inject(AuthService).checkAuthenticationStatus())
   ]
 };
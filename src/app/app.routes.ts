@@ -5,16 +5,32 @@ import { ProductsCreateComponent } from './products/products-create/products-cre
 import { ProductsEditComponent } from './products/product-edit/product-edit.component';
 import { LoginComponent } from './auth/login/login.component';
 import { RegisterComponent } from './auth/register/register.component';
+import { ForgotPasswordComponent } from './auth/forgot-password/forgot-password.component';
+import { ResetPasswordComponent } from './auth/reset-password/reset-password.component';
+import { VerifyEmailComponent } from './auth/verify-email/verify-email.component';
+import { ConfirmEmailChangeComponent } from './auth/confirm-email-change/confirm-email-change.component';
+import { GoodbyeComponent } from './auth/goodbye/goodbye.component';
+import { AuthCallbackComponent } from './auth/auth-callback/auth-callback.component';
 import { ProfileComponent } from './profile/profile.component';
 import { authGuard } from './auth/auth.guard';
+import { roleGuard } from './auth/role.guard';
+import { guestGuard } from './auth/guest.guard';
+import { PRODUCT_MANAGER_ROLES } from './auth/roles';
+import { unsavedChangesGuard } from './unsaved-changes/unsaved-changes.guard';
 
 export const routes: Routes = [
-  { path: 'login', component: LoginComponent },
-  { path: 'register', component: RegisterComponent },
+  { path: 'login', component: LoginComponent, canActivate: [guestGuard] },
+  { path: 'register', component: RegisterComponent, canActivate: [guestGuard] },
+  { path: 'forgot-password', component: ForgotPasswordComponent },
+  { path: 'reset-password', component: ResetPasswordComponent },
+  { path: 'verify-email', component: VerifyEmailComponent },
+  { path: 'confirm-email-change', component: ConfirmEmailChangeComponent },
+  { path: 'goodbye', component: GoodbyeComponent },
+  { path: 'auth/callback', component: AuthCallbackComponent },
   { path: '', component: ProductsListComponent, canActivate: [authGuard] },
   { path: 'links', component: LinksComponent, canActivate: [authGuard] },
-  { path: 'profile', component: ProfileComponent, canActivate: [authGuard] },
+  { path: 'profile', component: ProfileComponent, canActivate: [authGuard], canDeactivate: [unsavedChangesGuard] },
   { path: 'products', component: ProductsListComponent, canActivate: [authGuard] },
-  { path: 'products/create', component: ProductsCreateComponent, canActivate: [authGuard] },
-  { path: 'products/edit/:id', component: ProductsEditComponent, canActivate: [authGuard] },
+  { path: 'products/create', component: ProductsCreateComponent, canActivate: [roleGuard], canDeactivate: [unsavedChangesGuard], data: { roles: PRODUCT_MANAGER_ROLES } },
+  { path: 'products/edit/:id', component: ProductsEditComponent, canActivate: [roleGuard], canDeactivate: [unsavedChangesGuard], data: { roles: PRODUCT_MANAGER_ROLES } },
 ];
@@ -0,0 +1,102 @@
+import { Component, OnInit } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { map, switchMap } from 'rxjs/operators';
+import { AuthService } from '../auth.service';
+import { IdentityProviderService } from '../identity-providers/identity-provider.service';
+import { getSafeReturnUrl } from '../../utils/return-url';
+import { parseApiError } from '../../utils/api-error';
+
+// Landing page for external identity providers: /auth/callback?code=...&state=...
+@Component({
+  selector: 'app-auth-callback',
+  standalone: true,
+  imports: [CommonModule, RouterLink, MatCardModule, MatButtonModule, MatIconModule, MatProgressSpinnerModule],
+  template: `
+    <div class="callback-container">
+      <mat-card class="callback-card">
+        <mat-card-content class="callback-content">
+          @if (errorMessage) {
+            <div class="error-message">
+              <mat-icon>error</mat-icon>
+              {{ errorMessage }}
+            </div>
+            <a mat-raised-button color="primary" routerLink="/login">Back to login</a>
+          } @else {
+            <mat-spinner diameter="40"></mat-spinner>
+            <p>Signing you in...</p>
+          }
+        </mat-card-content>
+      </mat-card>
+    </div>
+  `,
+  styles: [`
+    .callback-container {
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: 100vh;
+      padding: 20px;
+    }
+
+    .callback-card {
+      width: 100%;
+      max-width: 450px;
+    }
+
+    .callback-content {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 16px;
+      padding: 24px;
+    }
+
+    .error-message {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      color: #f44336;
+      background-color: #ffebee;
+      padding: 12px;
+      border-radius: 4px;
+      font-size: 14px;
+    }
+  `]
+})
+export class AuthCallbackComponent implements OnInit {
+  errorMessage = '';
+
+  constructor(
+    private route: ActivatedRoute,
+    private router: Router,
+    private authService: AuthService,
+    private identityProviderService: IdentityProviderService
+  ) { }
+
+  ngOnInit() {
+    const params = this.route.snapshot.queryParams as Record<string, string | undefined>;
+
+    this.identityProviderService.completeSignIn(params).pipe(
+      switchMap(result => this.authService.loginWithExternalProvider(result.providerId, result.idToken).pipe(
+        map(() => result)
+      ))
+    ).subscribe({
+      next: (result) => {
+        // replaceUrl keeps the one-time code out of the browser history
+        this.router.navigateByUrl(getSafeReturnUrl(result.returnUrl), { replaceUrl: true });
+      },
+      error: (error) => {
+        // Provider-side problems (state mismatch, nonce, ...) are plain Errors with a readable message
+        this.errorMessage = error instanceof HttpErrorResponse
+          ? parseApiError(error, 'Sign-in failed. Please try again.').message
+          : error.message || 'Sign-in failed. Please try again.';
+      }
+    });
+  }
+}
\ No newline at end of file
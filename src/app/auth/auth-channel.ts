@@ -0,0 +1,71 @@
+import { Injectable, NgZone, OnDestroy } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import type { User } from './auth.service';
+
+// Messages sent between open tabs of the app so they all show the same session
+export type AuthSyncMessage =
+  | { type: 'login'; user: User }
+  | { type: 'user-updated'; user: User }
+  | { type: 'logout' }
+  | { type: 'session-expired' }
+  | { type: 'activity' };    // The user is active in the sending tab (see IdleService)
+
+const CHANNEL_NAME = 'auth-sync';
+const STORAGE_KEY = 'auth-sync';
+
+// Small wrapper around BroadcastChannel with a localStorage fallback for older browsers
+// Messages are only delivered to *other* tabs, never back to the sender
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthChannel implements OnDestroy {
+  private messagesSubject = new Subject<AuthSyncMessage>();
+  public messages$: Observable<AuthSyncMessage> = this.messagesSubject.asObservable();
+
+  private channel: BroadcastChannel | null = null;
+  private storageListener = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) {
+      return;
+    }
+    // Anything could have written this key (another app version, devtools, ...) - skip what we can't read
+    let message: AuthSyncMessage | undefined;
+    try {
+      message = JSON.parse(event.newValue).message;
+    } catch {
+      return;
+    }
+    if (message) {
+      this.receive(message);
+    }
+  };
+
+  constructor(private zone: NgZone) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<AuthSyncMessage>) => this.receive(event.data);
+    } else if (typeof window !== 'undefined') {
+      window.addEventListener('storage', this.storageListener);
+    }
+  }
+
+  post(message: AuthSyncMessage): void {
+    if (this.channel) {
+      this.channel.postMessage(message);
+    } else if (typeof localStorage !== 'undefined') {
+      // The timestamp makes every write a change, so the storage event always fires
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, sentAt: Date.now() }));
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.channel?.close();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.storageListener);
+    }
+  }
+
+  private receive(message: AuthSyncMessage): void {
+    // Make sure Angular notices the state change and updates the views
+    this.zone.run(() => this.messagesSubject.next(message));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRouteSnapshot, Router, RouterStateSnapshot } from '@angular/router';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+import { authGuard } from './auth.guard';
+import { AuthService, AuthStatus } from './auth.service';
+
+describe('authGuard', () => {
+  let status: BehaviorSubject<AuthStatus>;
+  let router: jasmine.SpyObj<Router>;
+
+  beforeEach(() => {
+    status = new BehaviorSubject<AuthStatus>('unknown');
+    router = jasmine.createSpyObj<Router>('Router', ['navigate']);
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: AuthService, useValue: { authStatus$: status.asObservable() } },
+        { provide: Router, useValue: router }
+      ]
+    });
+  });
+
+  function runGuard(url = '/products'): Observable<boolean> {
+    const state = { url } as RouterStateSnapshot;
+    return TestBed.runInInjectionContext(() => authGuard({} as ActivatedRouteSnapshot, state));
+  }
+
+  it('should wait while the session check is still running', () => {
+    let result: boolean | undefined;
+    runGuard().subscribe(value => result = value);
+
+    expect(result).toBeUndefined();
+    expect(router.navigate).not.toHaveBeenCalled();
+
+    status.next('authenticated');
+    expect(result).toBeTrue();
+  });
+
+  it('should redirect anonymous users to login with a return URL', () => {
+    status.next('anonymous');
+    let result: boolean | undefined;
+    runGuard('/products?page=2').subscribe(value => result = value);
+
+    expect(result).toBeFalse();
+    expect(router.navigate).toHaveBeenCalledWith(['/login'], { queryParams: { returnUrl: '/products?page=2' } });
+  });
+});
@@ -1,19 +1,22 @@
 import { inject } from '@angular/core';
-import { Router } from '@angular/router';
-import { map, take } from 'rxjs/operators';
+import { ActivatedRouteSnapshot, Router, RouterStateSnapshot } from '@angular/router';
+import { filter, map, take } from 'rxjs/operators';
 import { AuthService } from './auth.service';
 
-export const authGuard = () => {
+export const authGuard = (route: ActivatedRouteSnapshot, state: RouterStateSnapshot) => {
   const authService = inject(AuthService);
   const router = inject(Router);
 
-  return authService.isAuthenticated$.pipe(
+  // Wait until the session check has finished before deciding
+  return authService.authStatus$.pipe(
+    filter(status => status !== 'unknown'),
     take(1),
-    map(isAuthenticated => {
-      if (isAuthenticated) {
+    map(status => {
+      if (status === 'authenticated') {
         return true;
       } else {
-        router.navigate(['/login']);
+        // Remember where the user wanted to go (including query params)
+        router.navigate(['/login'], { queryParams: { returnUrl: state.url } });
         return false;
       }
     })
@@ -0,0 +1,68 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Router } from '@angular/router';
+import { MatSnackBar } from '@angular/material/snack-bar';
+
+import { authInterceptor } from './auth.interceptor';
+import { AuthService } from './auth.service';
+import { environment } from '../../environments/environment';
+
+describe('authInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+  let authService: jasmine.SpyObj<AuthService>;
+  let router: jasmine.SpyObj<Router>;
+
+  beforeEach(() => {
+    authService = jasmine.createSpyObj<AuthService>('AuthService', ['isAuthenticated', 'clearSession']);
+    authService.isAuthenticated.and.returnValue(true);
+    router = jasmine.createSpyObj<Router>('Router', ['navigate'], { url: '/products' });
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([authInterceptor])),
+        provideHttpClientTesting(),
+        { provide: AuthService, useValue: authService },
+        { provide: Router, useValue: router },
+        { provide: MatSnackBar, useValue: jasmine.createSpyObj<MatSnackBar>('MatSnackBar', ['open']) }
+      ]
+    });
+
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpMock.verify());
+
+  it('should send credentials with API requests only', () => {
+    http.get(`${environment.apiURL}/api/laptops`).subscribe();
+    http.get('https://example.com/data.json').subscribe();
+
+    expect(httpMock.expectOne(`${environment.apiURL}/api/laptops`).request.withCredentials).toBeTrue();
+    expect(httpMock.expectOne('https://example.com/data.json').request.withCredentials).toBeFalse();
+  });
+
+  it('should not send credentials to hosts that only share a prefix with the API', () => {
+    const lookalikes = [`${environment.apiURL}0/api/laptops`, `${environment.apiURL}.evil.example/api/laptops`];
+    lookalikes.forEach(url => http.get(url).subscribe());
+
+    lookalikes.forEach(url => expect(httpMock.expectOne(url).request.withCredentials).toBeFalse());
+  });
+
+  it('should clear the session and redirect on 401', () => {
+    http.get(`${environment.apiURL}/api/laptops`).subscribe({ error: () => {} });
+    httpMock.expectOne(`${environment.apiURL}/api/laptops`).flush(null, { status: 401, statusText: 'Unauthorized' });
+
+    expect(authService.clearSession).toHaveBeenCalled();
+    expect(router.navigate).toHaveBeenCalledWith(['/login'], { queryParams: { returnUrl: '/products' } });
+  });
+
+  it('should ignore 401 from auth endpoints', () => {
+    http.post(`${environment.apiURL}/api/auth/login`, {}).subscribe({ error: () => {} });
+    httpMock.expectOne(`${environment.apiURL}/api/auth/login`).flush(null, { status: 401, statusText: 'Unauthorized' });
+
+    expect(authService.clearSession).not.toHaveBeenCalled();
+    expect(router.navigate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,56 @@
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { throwError } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { AuthService } from './auth.service';
+import { getApiPath, isApiUrl } from '../utils/api-url';
+
+// Auth endpoints handle 401 themselves (wrong password, no session yet, ...)
+// Reacting to them here would cause redirect loops
+const AUTH_ENDPOINTS = [
+  '/api/auth/login',
+  '/api/auth/login/2fa',
+  '/api/auth/external-login',
+  '/api/auth/register',
+  '/api/auth/logout',
+  '/api/auth/me',
+  '/api/auth/forgot-password',
+  '/api/auth/reset-password',
+  '/api/auth/verify-email',
+  '/api/auth/confirm-email-change',
+  '/api/auth/resend-verification'
+];
+
+function isAuthEndpoint(url: string): boolean {
+  return AUTH_ENDPOINTS.includes(getApiPath(url) || '');
+}
+
+export const authInterceptor: HttpInterceptorFn = (req, next) => {
+  // Leave requests to other hosts untouched - they must never get our cookie
+  if (!isApiUrl(req.url)) {
+    return next(req);
+  }
+
+  const authService = inject(AuthService);
+  const router = inject(Router);
+  const snackBar = inject(MatSnackBar);
+
+  // Send the authentication cookie with every API call
+  const authReq = req.clone({ withCredentials: true });
+
+  return next(authReq).pipe(
+    catchError((error: HttpErrorResponse) => {
+      // Only the first 401 of an expired session needs handling - after that we're already anonymous
+      if (error.status === 401 && !isAuthEndpoint(req.url) && authService.isAuthenticated()) {
+        authService.clearSession();
+        snackBar.open('Your session has expired. Please log in again.', 'Close', {
+          duration: 5000
+        });
+        router.navigate(['/login'], { queryParams: { returnUrl: router.url } });
+      }
+      return throwError(() => error);
+    })
+  );
+};
\ No newline at end of file
@@ -1,10 +1,18 @@
 // Angular core imports
 import { Injectable } from '@angular/core';           // Makes this class available for dependency injection
-import { HttpClient } from '@angular/common/http';     // For making HTTP requests to the backend
-import { Observable, BehaviorSubject } from 'rxjs';    // For handling async operations
-import { tap, catchError } from 'rxjs/operators';     // RxJS operators for transforming data
+import { HttpClient, HttpErrorResponse } from '@angular/common/http'; // For making HTTP requests to the backend
+import { Observable, BehaviorSubject, Subject } from 'rxjs'; // For handling async operations
+import { tap, catchError, map } from 'rxjs/operators'; // RxJS operators for transforming data
 import { environment } from '../../environments/environment'; // Configuration (API URL, etc.)
 import { of } from 'rxjs';                            // Creates observable from static value
+import { UserRole, hasAnyRole } from './roles';       // Role type and permission check
+import { AuthChannel, AuthSyncMessage } from './auth-channel'; // Keeps other open tabs in sync
+
+// The three states our authentication can be in:
+// - 'unknown': we haven't heard back from /api/auth/me yet (app is still starting)
+// - 'authenticated': the backend confirmed a valid session
+// - 'anonymous': the backend said there is no valid session
+export type AuthStatus = 'unknown' | 'authenticated' | 'anonymous';
 
 // Interface defines the structure of registration data
 // This ensures type safety when sending data to the backend
@@ -21,12 +29,41 @@ export interface LoginRequest {
   password: string;        // User's password
 }
 
+// Interface for setting a new password with the token from the reset email
+export interface ResetPasswordRequest {
+  token: string;           // Token from the /reset-password?token=... link
+  newPassword: string;     // The new password chosen by the user
+}
+
+// What the backend returns once a new email address is confirmed
+export interface ConfirmEmailChangeResponse {
+  message: string;
+  email: string;           // The account's address from now on
+}
+
+// Error code the backend sends (403) when someone logs in before confirming their email
+export const EMAIL_NOT_VERIFIED_CODE = 'EmailNotVerified';
+
 // Interface for what the backend returns after successful login
 export interface LoginResponse {
   email?: string;          // User's email (optional in case backend doesn't send it)
   firstName?: string;      // User's first name
   lastName?: string;       // User's last name
   profilePicture?: string; // URL/path to user's profile picture
+  roles?: UserRole[];      // What the user is allowed to do (admin, editor, viewer)
+  twoFactorEnabled?: boolean;  // Whether the account uses an authenticator app
+  requiresTwoFactor?: boolean; // true = password was correct, now a 2FA code is needed
+  phoneNumber?: string;    // E.164 format, e.g. +442079460958
+  bio?: string;            // Short text about the user
+  locale?: string;         // Preferred language, e.g. 'en-GB'
+  timeZone?: string;       // IANA time zone, e.g. 'Europe/Berlin' - used by the userDate pipe
+  pendingEmail?: string;   // New address waiting for its confirmation link to be clicked
+}
+
+// Interface for the second login step - send either code or recoveryCode
+export interface TwoFactorLoginRequest {
+  code?: string;           // 6-digit code from the authenticator app
+  recoveryCode?: string;   // One of the recovery codes shown when 2FA was enabled
 }
 
 // Interface representing a user in our application
@@ -36,6 +73,13 @@ export interface User {
   firstName?: string;      // User's first name
   lastName?: string;       // User's last name
   profilePicture?: string; // URL/path to profile picture
+  roles?: UserRole[];      // User's roles - checked by roleGuard and the UI
+  twoFactorEnabled?: boolean;  // Whether the account uses an authenticator app
+  phoneNumber?: string;    // E.164 format
+  bio?: string;            // Short text about the user
+  locale?: string;         // Preferred language
+  timeZone?: string;       // Dates in the app are shown in this time zone
+  pendingEmail?: string;   // Requested new address - email keeps working until it's confirmed
 }
 
 // @Injectable makes this service available throughout the app
@@ -52,85 +96,152 @@ export class AuthService {
   private userSubject = new BehaviorSubject<User | null>(null);
   public user$ = this.userSubject.asObservable(); // Components can "watch" this
   
-  // Track whether user is authenticated (logged in)
-  private isAuthenticatedSubject = new BehaviorSubject<boolean>(false);
-  public isAuthenticated$ = this.isAuthenticatedSubject.asObservable();
+  // Track the authentication status - starts as 'unknown' until the session check finishes
+  private authStatusSubject = new BehaviorSubject<AuthStatus>('unknown');
+  public authStatus$ = this.authStatusSubject.asObservable();
+
+  // Shortcut for components that only care about "logged in or not"
+  // Note: this emits false while the status is still 'unknown'
+  public isAuthenticated$ = this.authStatus$.pipe(map(status => status === 'authenticated'));
+
+  // Emits when another tab logged out or saw the session expire,
+  // or when the session was revoked from another device
+  // AppComponent uses it to leave protected pages in this tab too
+  private signedOutElsewhereSubject = new Subject<void>();
+  public signedOutElsewhere$ = this.signedOutElsewhereSubject.asObservable();
 
   // Constructor runs when Angular creates this service
   // Angular automatically provides HttpClient (dependency injection)
-  constructor(private http: HttpClient) {
-    // Check if user is already logged in when the service starts
-    this.checkAuthenticationStatus();
+  // The session check itself is started by the app initializer in app.config.ts
+  constructor(private http: HttpClient, private channel: AuthChannel) {
+    // Apply login/logout/profile changes made in other tabs
+    this.channel.messages$.subscribe(message => this.applySyncMessage(message));
   }
 
   // Register a new user account
   // Returns an Observable - components must subscribe to get the result
   register(registerData: RegisterRequest): Observable<any> {
-    return this.http.post(`${this.apiUrl}/api/auth/register`, registerData, {
-      withCredentials: true  // Include cookies in the request (important for authentication)
-    });
+    // Cookies are attached by authInterceptor (see auth.interceptor.ts)
+    return this.http.post(`${this.apiUrl}/api/auth/register`, registerData);
   }
 
   // Log in a user with email and password
   login(loginData: LoginRequest): Observable<LoginResponse> {
-    return this.http.post<LoginResponse>(`${this.apiUrl}/api/auth/login`, loginData, {
-      withCredentials: true  // Send cookies - backend will create authentication cookie
-    }).pipe(
+    // Backend answers with an authentication cookie
+    return this.http.post<LoginResponse>(`${this.apiUrl}/api/auth/login`, loginData).pipe(
       // tap() runs side effects without changing the data
       tap(response => {
+        // With 2FA enabled the password alone isn't enough - wait for verifyTwoFactor()
+        if (response.requiresTwoFactor) {
+          return;
+        }
         // On successful login, store user data in our service
-        const userData = {
-          email: response.email,
-          firstName: response.firstName,
-          lastName: response.lastName,
-          profilePicture: response.profilePicture
-        };
-        // Update our "watched" variables - components will be notified
-        this.userSubject.next(userData);         // Store user data
-        this.isAuthenticatedSubject.next(true);  // Mark as authenticated
+        this.startSession(response);
       }),
       // catchError() handles any errors that occur
       catchError(error => {
-        this.isAuthenticatedSubject.next(false);  // Mark as not authenticated
+        this.authStatusSubject.next('anonymous');  // Mark as not authenticated
         throw error;  // Re-throw error so component can handle it
       })
     );
   }
 
+  // Second login step for accounts with 2FA: send the authenticator code (or a recovery code)
+  // The backend remembers the first step (email/password) in a short-lived cookie
+  verifyTwoFactor(twoFactorData: TwoFactorLoginRequest): Observable<LoginResponse> {
+    return this.http.post<LoginResponse>(`${this.apiUrl}/api/auth/login/2fa`, twoFactorData).pipe(
+      tap(response => this.startSession(response))
+    );
+  }
+
+  // Log in with an ID token from an external identity provider (see auth/identity-providers)
+  // The backend verifies the token and sets the same session cookie as a normal login
+  loginWithExternalProvider(providerId: string, idToken: string): Observable<LoginResponse> {
+    return this.http.post<LoginResponse>(`${this.apiUrl}/api/auth/external-login`, { provider: providerId, idToken }).pipe(
+      tap(response => this.startSession(response))
+    );
+  }
+
   // Log out the current user
   logout(): Observable<any> {
-    return this.http.post(`${this.apiUrl}/api/auth/logout`, {}, {
-      withCredentials: true  // Send cookies so backend knows which user to log out
-    }).pipe(
+    // The cookie tells the backend which user to log out
+    return this.http.post(`${this.apiUrl}/api/auth/logout`, {}).pipe(
       tap(() => {
         // On successful logout, clear user data
-        this.userSubject.next(null);              // Clear user data
-        this.isAuthenticatedSubject.next(false);  // Mark as not authenticated
+        this.userSubject.next(null);                 // Clear user data
+        this.authStatusSubject.next('anonymous');    // Mark as not authenticated
+        this.channel.post({ type: 'logout' });       // Log out the other tabs too
       }),
       catchError(() => {
         // Even if logout fails, clear local state
         this.userSubject.next(null);
-        this.isAuthenticatedSubject.next(false);
+        this.authStatusSubject.next('anonymous');
+        this.channel.post({ type: 'logout' });
         return of(null);  // Return a "dummy" observable so app doesn't crash
       })
     );
   }
 
+  // Ask the backend to send a password reset email
+  // The backend answers the same way whether the email exists or not
+  forgotPassword(email: string): Observable<any> {
+    return this.http.post(`${this.apiUrl}/api/auth/forgot-password`, { email });
+  }
+
+  // Set a new password using the token from the reset email
+  // Fails with 400 (invalid token) or 410 (expired token)
+  resetPassword(resetData: ResetPasswordRequest): Observable<any> {
+    return this.http.post(`${this.apiUrl}/api/auth/reset-password`, resetData);
+  }
+
+  // Confirm an email address with the token from the verification email
+  // Fails with 400 (invalid token) or 410 (expired token)
+  verifyEmail(token: string): Observable<any> {
+    return this.http.post(`${this.apiUrl}/api/auth/verify-email`, { token });
+  }
+
+  // Switch the account to its pending address with the token from the email-change link
+  // Works without a session - the link may be opened on another device
+  // Fails with 400 (invalid token), 409 (address taken in the meantime) or 410 (expired token)
+  confirmEmailChange(token: string): Observable<ConfirmEmailChangeResponse> {
+    return this.http.post<ConfirmEmailChangeResponse>(`${this.apiUrl}/api/auth/confirm-email-change`, { token });
+  }
+
+  // Send the verification email again (e.g. it got lost or the link expired)
+  resendVerificationEmail(email: string): Observable<any> {
+    return this.http.post(`${this.apiUrl}/api/auth/resend-verification`, { email });
+  }
+
+  // Check whether a login error means "account exists but email is not confirmed yet"
+  isEmailNotVerifiedError(error: any): boolean {
+    return error?.status === 403 && error?.error?.code === EMAIL_NOT_VERIFIED_CODE;
+  }
+
   // Get current user information from the backend
   // Used to check if user is still logged in (cookie still valid)
   getCurrentUser(): Observable<User> {
-    return this.http.get<User>(`${this.apiUrl}/api/auth/me`, {
-      withCredentials: true  // Send authentication cookie
-    }).pipe(
+    return this.http.get<User>(`${this.apiUrl}/api/auth/me`).pipe(
       tap(user => {
         // If successful, user is authenticated
-        this.userSubject.next(user);             // Store user data
-        this.isAuthenticatedSubject.next(true);  // Mark as authenticated
+        this.userSubject.next(user);                     // Store user data
+        this.authStatusSubject.next('authenticated');    // Mark as authenticated
       }),
-      catchError(() => {
-        // If error (401, 500, etc.), user is not authenticated
+      catchError((error: HttpErrorResponse) => {
+        // A 401 while we thought we were logged in means the session was revoked
+        // from another device (see "Where you're signed in" on the profile page)
+        if (error.status === 401 && this.isAuthenticated()) {
+          this.clearSession();
+          this.signedOutElsewhereSubject.next();
+          return of({});
+        }
+        // Any other error during a re-check (offline, 5xx, ...) says nothing about the session
+        // Keep the user - only the startup check decides 'anonymous' from a failure
+        if (this.isAuthenticated()) {
+          return of(this.getUser() || {});
+        }
+        // If error (401, 500, etc.) at startup, user is not authenticated
         this.userSubject.next(null);
-        this.isAuthenticatedSubject.next(false);
+        this.authStatusSubject.next('anonymous');
         return of({});  // Return empty object so app doesn't crash
       })
     );
@@ -139,7 +250,13 @@ export class AuthService {
   // Get current authentication status (synchronous)
   // Returns true if user is logged in, false if not
   isAuthenticated(): boolean {
-    return this.isAuthenticatedSubject.value;  // .value gets current value without subscribing
+    return this.authStatusSubject.value === 'authenticated';  // .value gets current value without subscribing
+  }
+
+  // Get current authentication status (synchronous)
+  // Returns 'unknown' while the startup session check is still running
+  getAuthStatus(): AuthStatus {
+    return this.authStatusSubject.value;
   }
 
   // Get current user data (synchronous)
@@ -148,16 +265,82 @@ export class AuthService {
     return this.userSubject.value;  // .value gets current value without subscribing
   }
 
-  // Private method called when service starts
+  // Check if the current user has at least one of the given roles (synchronous)
+  hasAnyRole(roles: UserRole[]): boolean {
+    return hasAnyRole(this.userSubject.value, roles);
+  }
+
+  // Same check as an Observable - updates when the user changes (login, logout, ...)
+  hasAnyRole$(roles: UserRole[]): Observable<boolean> {
+    return this.user$.pipe(map(user => hasAnyRole(user, roles)));
+  }
+
+  // Called once by the app initializer (see app.config.ts) before the first navigation
   // Checks if user is already logged in (has valid cookie)
-  private checkAuthenticationStatus(): void {
-    this.getCurrentUser().subscribe();  // Subscribe to trigger the HTTP request
+  // Angular waits for the returned Observable, so guards always see a known status
+  checkAuthenticationStatus(): Observable<User> {
+    return this.getCurrentUser();
     // We don't need to handle the result - getCurrentUser() updates our state
   }
 
+  // Forget the current user without calling the backend
+  // Used when the session cookie has expired (see auth.interceptor.ts)
+  // or the backend already ended the session (e.g. after deleting the account)
+  clearSession(reason: 'session-expired' | 'logout' = 'session-expired'): void {
+    this.userSubject.next(null);
+    this.authStatusSubject.next('anonymous');
+    this.channel.post({ type: reason });
+  }
+
+  // Store the user from a login response and mark them as authenticated
+  private startSession(response: LoginResponse): void {
+    const userData = {
+      email: response.email,
+      firstName: response.firstName,
+      lastName: response.lastName,
+      profilePicture: response.profilePicture,
+      roles: response.roles,
+      twoFactorEnabled: response.twoFactorEnabled,
+      phoneNumber: response.phoneNumber,
+      bio: response.bio,
+      locale: response.locale,
+      timeZone: response.timeZone,
+      pendingEmail: response.pendingEmail
+    };
+    // Update our "watched" variables - components will be notified
+    this.userSubject.next(userData);                 // Store user data
+    this.authStatusSubject.next('authenticated');    // Mark as authenticated
+    this.channel.post({ type: 'login', user: userData });
+  }
+
   // Update user data in the service (used after profile updates)
   // This notifies all components watching user$ that the data changed
   updateUserData(userData: User): void {
     this.userSubject.next(userData);  // Update the "watched" user data
+    this.channel.post({ type: 'user-updated', user: userData });
+  }
+
+  // Apply a change that happened in another tab
+  // Only updates local state - never posts back, otherwise tabs would echo forever
+  private applySyncMessage(message: AuthSyncMessage): void {
+    switch (message.type) {
+      case 'login':
+        this.userSubject.next(message.user);
+        this.authStatusSubject.next('authenticated');
+        break;
+      case 'user-updated':
+        if (this.isAuthenticated()) {
+          this.userSubject.next(message.user);
+        }
+        break;
+      case 'logout':
+      case 'session-expired':
+        if (this.isAuthenticated()) {
+          this.userSubject.next(null);
+          this.authStatusSubject.next('anonymous');
+          this.signedOutElsewhereSubject.next();
+        }
+        break;
+    }
   }
 }
\ No newline at end of file
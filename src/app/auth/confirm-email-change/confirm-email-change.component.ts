@@ -0,0 +1,181 @@
+import { Component, Input, OnInit } from '@angular/core';
+import { Router } from '@angular/router';
+import { HttpErrorResponse } from '@angular/common/http';
+import { AuthService } from '../auth.service';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+
+type ConfirmState = 'confirming' | 'success' | 'invalid' | 'expired' | 'taken';
+
+@Component({
+  selector: 'app-confirm-email-change',
+  standalone: true,
+  imports: [CommonModule, MatCardModule, MatButtonModule, MatIconModule, MatProgressSpinnerModule],
+  template: `
+    <div class="confirm-container">
+      <mat-card class="confirm-card">
+        <mat-card-header>
+          <mat-card-title>
+            <mat-icon>alternate_email</mat-icon>
+            Confirm New Email
+          </mat-card-title>
+        </mat-card-header>
+
+        <mat-card-content>
+          @switch (state) {
+            @case ('confirming') {
+              <div class="confirming">
+                <mat-spinner diameter="40"></mat-spinner>
+                <p>Confirming your new email address...</p>
+              </div>
+            }
+            @case ('success') {
+              <div class="success-message">
+                <mat-icon>check_circle</mat-icon>
+                From now on, use {{ newEmail }} to log in.
+              </div>
+            }
+            @default {
+              <div class="error-message">
+                <mat-icon>{{ state === 'expired' ? 'timer_off' : 'link_off' }}</mat-icon>
+                @switch (state) {
+                  @case ('expired') { This confirmation link has expired. }
+                  @case ('taken') { Another account is already using this email address. }
+                  @default { This confirmation link is invalid or has already been used. }
+                }
+                Your current email address still works - you can send a new link from your profile.
+              </div>
+            }
+          }
+
+          @if (state !== 'confirming') {
+            <button mat-raised-button color="primary" class="confirm-button" (click)="continue()">
+              {{ isAuthenticated ? 'Go to your profile' : 'Go to login' }}
+            </button>
+          }
+        </mat-card-content>
+      </mat-card>
+    </div>
+  `,
+  styles: [`
+    .confirm-container {
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: 100vh;
+      padding: 20px;
+    }
+
+    .confirm-card {
+      width: 100%;
+      max-width: 450px;
+    }
+
+    .confirming {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 0;
+    }
+
+    .confirm-button {
+      width: 100%;
+      height: 48px;
+      font-size: 16px;
+      margin-top: 20px;
+    }
+
+    .error-message, .success-message {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 12px;
+      border-radius: 4px;
+      font-size: 14px;
+    }
+
+    .error-message {
+      color: #f44336;
+      background-color: #ffebee;
+    }
+
+    .success-message {
+      color: #4caf50;
+      background-color: #e8f5e8;
+    }
+
+    mat-card-header {
+      margin-bottom: 16px;
+    }
+
+    mat-card-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-size: 24px;
+    }
+
+    /* Mobile responsive */
+    @media (max-width: 600px) {
+      .confirm-container {
+        padding: 8px;
+        box-sizing: border-box;
+      }
+
+      .confirm-card {
+        max-width: none;
+        width: calc(100vw - 16px);
+        padding: 24px;
+        box-sizing: border-box;
+      }
+    }
+  `]
+})
+export class ConfirmEmailChangeComponent implements OnInit {
+  // Bound from the ?token= query param of the link sent to the new address
+  @Input() token?: string;
+
+  state: ConfirmState = 'confirming';
+  newEmail = '';
+
+  constructor(
+    private authService: AuthService,
+    private router: Router
+  ) { }
+
+  // The link may be opened on a device where nobody is signed in
+  get isAuthenticated(): boolean {
+    return this.authService.isAuthenticated();
+  }
+
+  ngOnInit() {
+    if (!this.token) {
+      this.state = 'invalid';
+      return;
+    }
+
+    this.authService.confirmEmailChange(this.token).subscribe({
+      next: (response) => {
+        this.newEmail = response.email;
+        this.state = 'success';
+        // Show the new address right away (menu, profile, other tabs) - but only if the
+        // account signed in here is the one that asked for it, not someone else on this device
+        const currentUser = this.authService.getUser();
+        if (currentUser?.pendingEmail && currentUser.pendingEmail.toLowerCase() === response.email.toLowerCase()) {
+          this.authService.updateUserData({ ...currentUser, email: response.email, pendingEmail: undefined });
+        }
+      },
+      error: (error: HttpErrorResponse) => {
+        this.state = error.status === 410 ? 'expired' : error.status === 409 ? 'taken' : 'invalid';
+      }
+    });
+  }
+
+  continue() {
+    this.router.navigate([this.isAuthenticated ? '/profile' : '/login']);
+  }
+}
\ No newline at end of file
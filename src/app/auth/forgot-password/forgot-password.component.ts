@@ -0,0 +1,210 @@
+import { Component } from '@angular/core';
+import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { AuthService } from '../auth.service';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { parseApiError } from '../../utils/api-error';
+
+@Component({
+  selector: 'app-forgot-password',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, MatCardModule, MatInputModule, MatButtonModule, MatIconModule, MatProgressSpinnerModule],
+  template: `
+    <div class="forgot-container">
+      <mat-card class="forgot-card">
+        <mat-card-header>
+          <mat-card-title>
+            <mat-icon>lock_reset</mat-icon>
+            Forgot Password
+          </mat-card-title>
+          <mat-card-subtitle>Enter your email and we'll send you a link to reset your password.</mat-card-subtitle>
+        </mat-card-header>
+
+        <mat-card-content>
+          @if (emailSent) {
+            <div class="success-message">
+              <mat-icon>mark_email_read</mat-icon>
+              If an account exists for {{ forgotForm.value.email }}, a reset link is on its way. Please check your inbox.
+            </div>
+          } @else {
+            <form [formGroup]="forgotForm" (ngSubmit)="onSubmit()" class="forgot-form">
+              <mat-form-field appearance="outline" class="full-width">
+                <mat-label>Email</mat-label>
+                <input matInput type="email" formControlName="email" required>
+                <mat-icon matSuffix>email</mat-icon>
+                <mat-error *ngIf="forgotForm.get('email')?.hasError('required')">
+                  Email is required
+                </mat-error>
+                <mat-error *ngIf="forgotForm.get('email')?.hasError('email')">
+                  Please enter a valid email
+                </mat-error>
+              </mat-form-field>
+
+              <div class="error-message" *ngIf="errorMessage">
+                <mat-icon>error</mat-icon>
+                {{ errorMessage }}
+              </div>
+
+              <button
+                type="submit"
+                mat-raised-button
+                color="primary"
+                class="forgot-button"
+                [disabled]="forgotForm.invalid || isLoading">
+                <mat-spinner *ngIf="isLoading" diameter="20" class="button-spinner"></mat-spinner>
+                <mat-icon *ngIf="!isLoading">send</mat-icon>
+                Send Reset Link
+              </button>
+            </form>
+          }
+        </mat-card-content>
+
+        <mat-card-actions class="card-actions-center">
+          <p>Remembered it?
+            <button mat-button color="primary" (click)="goToLogin()">
+              Back to login
+            </button>
+          </p>
+        </mat-card-actions>
+      </mat-card>
+    </div>
+  `,
+  styles: [`
+    .forgot-container {
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: 100vh;
+      padding: 20px;
+    }
+
+    .forgot-card {
+      width: 100%;
+      max-width: 450px;
+    }
+
+    .forgot-form {
+      display: flex;
+      flex-direction: column;
+      gap: 20px;
+      margin-top: 20px;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .forgot-button {
+      width: 100%;
+      height: 48px;
+      font-size: 16px;
+    }
+
+    .button-spinner {
+      margin-right: 8px;
+    }
+
+    .error-message, .success-message {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 12px;
+      border-radius: 4px;
+      font-size: 14px;
+    }
+
+    .error-message {
+      color: #f44336;
+      background-color: #ffebee;
+    }
+
+    .success-message {
+      color: #4caf50;
+      background-color: #e8f5e8;
+      margin-top: 20px;
+    }
+
+    mat-card-header {
+      margin-bottom: 16px;
+    }
+
+    mat-card-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-size: 24px;
+    }
+
+    .card-actions-center {
+      justify-content: center;
+      text-align: center;
+    }
+
+    .card-actions-center p {
+      margin: 16px 0;
+      color: rgba(0, 0, 0, 0.6);
+    }
+
+    /* Mobile responsive */
+    @media (max-width: 600px) {
+      .forgot-container {
+        padding: 8px;
+        box-sizing: border-box;
+      }
+
+      .forgot-card {
+        max-width: none;
+        width: calc(100vw - 16px);
+        padding: 24px;
+        box-sizing: border-box;
+      }
+
+      mat-card-title {
+        font-size: 22px;
+      }
+    }
+  `]
+})
+export class ForgotPasswordComponent {
+  forgotForm: FormGroup;
+  errorMessage: string = '';
+  isLoading: boolean = false;
+  emailSent: boolean = false;
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService,
+    private router: Router
+  ) {
+    this.forgotForm = this.fb.group({
+      email: ['', [Validators.required, Validators.email]]
+    });
+  }
+
+  onSubmit() {
+    if (this.forgotForm.valid) {
+      this.isLoading = true;
+      this.errorMessage = '';
+
+      this.authService.forgotPassword(this.forgotForm.value.email).subscribe({
+        next: () => {
+          this.isLoading = false;
+          this.emailSent = true;
+        },
+        error: (error) => {
+          this.isLoading = false;
+          this.errorMessage = parseApiError(error, 'Could not send the reset email. Please try again.').message;
+        }
+      });
+    }
+  }
+
+  goToLogin() {
+    this.router.navigate(['/login']);
+  }
+}
\ No newline at end of file
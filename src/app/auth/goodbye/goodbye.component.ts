@@ -0,0 +1,60 @@
+import { Component } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+
+// Shown after the user deleted their account
+@Component({
+  selector: 'app-goodbye',
+  standalone: true,
+  imports: [RouterLink, MatCardModule, MatButtonModule, MatIconModule],
+  template: `
+    <div class="goodbye-container">
+      <mat-card class="goodbye-card">
+        <mat-card-content class="goodbye-content">
+          <mat-icon class="goodbye-icon">waving_hand</mat-icon>
+          <h2>Your account has been deleted</h2>
+          <p>All your personal data has been removed. Thanks for having been with us.</p>
+          <a mat-raised-button color="primary" routerLink="/register">Create a new account</a>
+        </mat-card-content>
+      </mat-card>
+    </div>
+  `,
+  styles: [`
+    .goodbye-container {
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: calc(100vh - 64px);
+      padding: 20px;
+    }
+
+    .goodbye-card {
+      width: 100%;
+      max-width: 450px;
+    }
+
+    .goodbye-content {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      text-align: center;
+      gap: 8px;
+      padding: 24px;
+    }
+
+    .goodbye-icon {
+      font-size: 64px;
+      width: 64px;
+      height: 64px;
+      color: #9e9e9e;
+    }
+
+    .goodbye-content p {
+      color: rgba(0, 0, 0, 0.6);
+      margin-bottom: 16px;
+    }
+  `]
+})
+export class GoodbyeComponent { }
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRouteSnapshot, Router } from '@angular/router';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+import { guestGuard } from './guest.guard';
+import { AuthService, AuthStatus } from './auth.service';
+
+describe('guestGuard', () => {
+  let status: BehaviorSubject<AuthStatus>;
+  let router: jasmine.SpyObj<Router>;
+
+  beforeEach(() => {
+    status = new BehaviorSubject<AuthStatus>('unknown');
+    router = jasmine.createSpyObj<Router>('Router', ['navigateByUrl']);
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: AuthService, useValue: { authStatus$: status.asObservable() } },
+        { provide: Router, useValue: router }
+      ]
+    });
+  });
+
+  function runGuard(queryParams: Record<string, string> = {}): Observable<boolean> {
+    const route = { queryParams } as unknown as ActivatedRouteSnapshot;
+    return TestBed.runInInjectionContext(() => guestGuard(route));
+  }
+
+  it('should wait while the session check is still running', () => {
+    let result: boolean | undefined;
+    runGuard().subscribe(value => result = value);
+
+    expect(result).toBeUndefined();
+
+    status.next('anonymous');
+    expect(result).toBeTrue();
+    expect(router.navigateByUrl).not.toHaveBeenCalled();
+  });
+
+  it('should send signed-in users to the pending return URL', () => {
+    status.next('authenticated');
+    let result: boolean | undefined;
+    runGuard({ returnUrl: '/products?page=2' }).subscribe(value => result = value);
+
+    expect(result).toBeFalse();
+    expect(router.navigateByUrl).toHaveBeenCalledWith('/products?page=2');
+  });
+
+  it('should send signed-in users home without a return URL', () => {
+    status.next('authenticated');
+    runGuard().subscribe();
+
+    expect(router.navigateByUrl).toHaveBeenCalledWith('/');
+  });
+});
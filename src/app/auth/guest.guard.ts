@@ -0,0 +1,26 @@
+import { inject } from '@angular/core';
+import { ActivatedRouteSnapshot, Router } from '@angular/router';
+import { filter, map, take } from 'rxjs/operators';
+import { AuthService } from './auth.service';
+import { getSafeReturnUrl } from '../utils/return-url';
+
+// Counterpart to authGuard for pages only signed-out users need (login, register)
+export const guestGuard = (route: ActivatedRouteSnapshot) => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+
+  // Wait until the session check has finished before deciding
+  return authService.authStatus$.pipe(
+    filter(status => status !== 'unknown'),
+    take(1),
+    map(status => {
+      if (status === 'anonymous') {
+        return true;
+      } else {
+        // Already signed in - go where authGuard wanted to send the user, or home
+        router.navigateByUrl(getSafeReturnUrl(route.queryParams['returnUrl']));
+        return false;
+      }
+    })
+  );
+};
\ No newline at end of file
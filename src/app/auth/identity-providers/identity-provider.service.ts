@@ -0,0 +1,34 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable, inject } from '@angular/core';
+import { Observable, throwError } from 'rxjs';
+import { ExternalSignInResult, IdentityProvider } from './identity-provider';
+import { OidcProvider } from './oidc-provider';
+import { peekPendingSignIn } from './pending-sign-in';
+import { environment } from '../../../environments/environment';
+
+// Builds the enabled providers from environment.identityProviders
+@Injectable({
+  providedIn: 'root'
+})
+export class IdentityProviderService {
+  private http = inject(HttpClient);
+
+  readonly providers: IdentityProvider[] = environment.identityProviders
+    .filter(config => config.enabled)
+    .map(config => new OidcProvider(config, this.http));
+
+  getProvider(id: string): IdentityProvider | undefined {
+    return this.providers.find(provider => provider.config.id === id);
+  }
+
+  // Called by /auth/callback - the stored state tells us which provider we came back from
+  completeSignIn(params: Record<string, string | undefined>): Observable<ExternalSignInResult> {
+    const pending = params['state'] ? peekPendingSignIn(params['state']) : null;
+    const provider = pending ? this.getProvider(pending.providerId) : undefined;
+
+    if (!provider) {
+      return throwError(() => new Error('This sign-in link is invalid or has already been used.'));
+    }
+    return provider.completeSignIn(params);
+  }
+}
\ No newline at end of file
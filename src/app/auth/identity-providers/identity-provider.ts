@@ -0,0 +1,31 @@
+import { Observable } from 'rxjs';
+
+// One entry of environment.identityProviders
+export interface IdentityProviderConfig {
+  id: string;              // Used in URLs and sent to the backend, e.g. 'google'
+  displayName: string;     // Shown on the button: "Sign in with <displayName>"
+  icon?: string;           // Material icon name
+  issuer: string;          // OIDC issuer URL - discovery document lives below it
+  clientId: string;
+  scope?: string;          // Defaults to 'openid profile email'
+  enabled: boolean;
+}
+
+// What the callback page gets back once the provider redirected to /auth/callback
+export interface ExternalSignInResult {
+  providerId: string;
+  idToken: string;
+  returnUrl?: string;
+}
+
+// Common shape for all external sign-in methods
+// OidcProvider is the only implementation today - others (e.g. SAML via backend) can be added later
+export interface IdentityProvider {
+  readonly config: IdentityProviderConfig;
+
+  // Send the browser to the provider's login page
+  signIn(returnUrl?: string): Promise<void>;
+
+  // Finish the login on /auth/callback - params are the callback query params
+  completeSignIn(params: Record<string, string | undefined>): Observable<ExternalSignInResult>;
+}
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { HttpClient, HttpHeaders, HttpParams } from '@angular/common/http';
+import { Observable, firstValueFrom, throwError } from 'rxjs';
+import { map, shareReplay, switchMap } from 'rxjs/operators';
+import { ExternalSignInResult, IdentityProvider, IdentityProviderConfig } from './identity-provider';
+import { savePendingSignIn, takePendingSignIn } from './pending-sign-in';
+import { createCodeChallenge, decodeJwtPayload, generateRandomString } from './pkce';
+
+// The parts of the OIDC discovery document we use
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+interface OidcTokenResponse {
+  id_token: string;
+  access_token?: string;
+  token_type?: string;
+}
+
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+
+// OpenID Connect authorization code flow with PKCE, as a public client (no client secret)
+export class OidcProvider implements IdentityProvider {
+  private discovery$?: Observable<OidcDiscoveryDocument>;
+
+  constructor(
+    readonly config: IdentityProviderConfig,
+    private http: HttpClient
+  ) { }
+
+  async signIn(returnUrl?: string): Promise<void> {
+    const discovery = await firstValueFrom(this.discover());
+
+    const state = generateRandomString();
+    const nonce = generateRandomString();
+    const codeVerifier = generateRandomString(48);
+    const redirectUri = window.location.origin + AUTH_CALLBACK_PATH;
+
+    savePendingSignIn(state, {
+      providerId: this.config.id,
+      codeVerifier,
+      nonce,
+      redirectUri,
+      returnUrl
+    });
+
+    const params = new HttpParams({
+      fromObject: {
+        response_type: 'code',
+        client_id: this.config.clientId,
+        redirect_uri: redirectUri,
+        scope: this.config.scope || 'openid profile email',
+        state,
+        nonce,
+        code_challenge: await createCodeChallenge(codeVerifier),
+        code_challenge_method: 'S256'
+      }
+    });
+
+    window.location.assign(`${discovery.authorization_endpoint}?${params.toString()}`);
+  }
+
+  completeSignIn(params: Record<string, string | undefined>): Observable<ExternalSignInResult> {
+    const pending = params['state'] ? takePendingSignIn(params['state']) : null;
+
+    if (params['error']) {
+      return throwError(() => new Error(params['error_description'] || `Sign-in was cancelled (${params['error']})`));
+    }
+    if (!pending || pending.providerId !== this.config.id || !params['code']) {
+      return throwError(() => new Error('This sign-in link is invalid or has already been used.'));
+    }
+
+    const body = new HttpParams({
+      fromObject: {
+        grant_type: 'authorization_code',
+        code: params['code'],
+        redirect_uri: pending.redirectUri,
+        client_id: this.config.clientId,
+        code_verifier: pending.codeVerifier
+      }
+    });
+    const headers = new HttpHeaders({ 'Content-Type': 'application/x-www-form-urlencoded' });
+
+    return this.discover().pipe(
+      switchMap(discovery => this.http.post<OidcTokenResponse>(discovery.token_endpoint, body.toString(), { headers })),
+      map(tokens => {
+        // The nonce ties the id_token to this login attempt (prevents replayed tokens)
+        const claims = decodeJwtPayload(tokens.id_token);
+        if (claims['nonce'] !== pending.nonce) {
+          throw new Error('The sign-in response could not be verified. Please try again.');
+        }
+        return {
+          providerId: this.config.id,
+          idToken: tokens.id_token,
+          returnUrl: pending.returnUrl
+        };
+      })
+    );
+  }
+
+  // Fetched once per provider and cached
+  private discover(): Observable<OidcDiscoveryDocument> {
+    if (!this.discovery$) {
+      const issuer = this.config.issuer.replace(/\/$/, '');
+      this.discovery$ = this.http.get<OidcDiscoveryDocument>(`${issuer}/.well-known/openid-configuration`).pipe(
+        shareReplay(1)
+      );
+    }
+    return this.discovery$;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,30 @@
+/**
+ * Remembers an external sign-in between leaving the app and coming back to /auth/callback
+ * Stored in sessionStorage under the OAuth "state" value, so it only lives in this tab
+ */
+
+export interface PendingSignIn {
+  providerId: string;
+  codeVerifier: string;    // PKCE secret - proves we started this login
+  nonce: string;           // Must come back inside the id_token
+  redirectUri: string;
+  returnUrl?: string;      // Where to go after login (validated again on the way back)
+}
+
+const KEY_PREFIX = 'external-sign-in:';
+
+export function savePendingSignIn(state: string, pending: PendingSignIn): void {
+  sessionStorage.setItem(KEY_PREFIX + state, JSON.stringify(pending));
+}
+
+export function peekPendingSignIn(state: string): PendingSignIn | null {
+  const stored = sessionStorage.getItem(KEY_PREFIX + state);
+  return stored ? JSON.parse(stored) as PendingSignIn : null;
+}
+
+// Reads and removes it - each state value can only be used once
+export function takePendingSignIn(state: string): PendingSignIn | null {
+  const pending = peekPendingSignIn(state);
+  sessionStorage.removeItem(KEY_PREFIX + state);
+  return pending;
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { base64UrlEncode, createCodeChallenge, decodeJwtPayload, generateRandomString } from './pkce';
+
+describe('pkce', () => {
+  it('should create the S256 challenge from RFC 7636 appendix B', async () => {
+    const challenge = await createCodeChallenge('dBjftJeZ4CVP-mJ92IZm4xHfZp-QX2zGYKgN5FfGsOk');
+    expect(challenge).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+
+  it('should generate url-safe random strings', () => {
+    const value = generateRandomString();
+    expect(value).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(generateRandomString()).not.toBe(value);
+  });
+
+  it('should base64url encode without padding', () => {
+    expect(base64UrlEncode(new Uint8Array([251, 255]))).toBe('-_8');
+  });
+
+  it('should decode the payload of a JWT', () => {
+    const payload = btoa(JSON.stringify({ nonce: 'abc' })).replace(/=+$/, '');
+    expect(decodeJwtPayload(`header.${payload}.signature`)).toEqual({ nonce: 'abc' });
+  });
+});
\ No newline at end of file
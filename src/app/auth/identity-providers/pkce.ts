@@ -0,0 +1,33 @@
+/**
+ * Helpers for the OAuth 2.0 PKCE extension (RFC 7636)
+ * The verifier stays in the browser, only its SHA-256 hash goes to the provider
+ */
+
+export function generateRandomString(byteLength = 32): string {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+}
+
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const data = new TextEncoder().encode(codeVerifier);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => binary += String.fromCharCode(byte));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Reads the claims of a JWT without verifying it - the backend verifies the signature
+export function decodeJwtPayload(token: string): Record<string, unknown> {
+  const payload = token.split('.')[1] || '';
+  const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - base64.length % 4) % 4);
+  const json = decodeURIComponent(
+    Array.from(atob(padded), char => '%' + char.charCodeAt(0).toString(16).padStart(2, '0')).join('')
+  );
+  return JSON.parse(json);
+}
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { Component, Inject, OnDestroy, OnInit } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { Subscription, interval } from 'rxjs';
+
+export interface IdleWarningDialogData {
+  warningSeconds: number;
+}
+
+// What the dialog closes with: user clicked "Stay", clicked "Log out", or the countdown ran out
+export type IdleWarningResult = 'stay' | 'logout' | 'timeout';
+
+@Component({
+  selector: 'app-idle-warning-dialog',
+  standalone: true,
+  imports: [MatDialogModule, MatButtonModule, MatIconModule],
+  template: `
+    <h2 mat-dialog-title class="dialog-title">
+      <mat-icon>timer</mat-icon>
+      Are you still there?
+    </h2>
+    <mat-dialog-content>
+      <p>You've been inactive for a while. For your security, you'll be logged out in {{ secondsLeft }}s.</p>
+    </mat-dialog-content>
+    <mat-dialog-actions align="end">
+      <button mat-button (click)="close('logout')">Log out now</button>
+      <button mat-raised-button color="primary" (click)="close('stay')" cdkFocusInitial>Stay signed in</button>
+    </mat-dialog-actions>
+  `,
+  styles: [`
+    .dialog-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+  `]
+})
+export class IdleWarningDialogComponent implements OnInit, OnDestroy {
+  secondsLeft: number;
+  private countdown?: Subscription;
+
+  constructor(
+    private dialogRef: MatDialogRef<IdleWarningDialogComponent, IdleWarningResult>,
+    @Inject(MAT_DIALOG_DATA) data: IdleWarningDialogData
+  ) {
+    this.secondsLeft = data.warningSeconds;
+  }
+
+  ngOnInit() {
+    this.countdown = interval(1000).subscribe(() => {
+      this.secondsLeft--;
+      if (this.secondsLeft <= 0) {
+        this.close('timeout');
+      }
+    });
+  }
+
+  ngOnDestroy() {
+    this.countdown?.unsubscribe();
+  }
+
+  close(result: IdleWarningResult) {
+    this.countdown?.unsubscribe();
+    this.dialogRef.close(result);
+  }
+}
\ No newline at end of file
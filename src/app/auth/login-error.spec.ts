@@ -0,0 +1,43 @@
+import { HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+
+import { ACCOUNT_LOCKED_CODE, parseLoginError, parseRetryAfter } from './login-error';
+
+describe('parseLoginError', () => {
+  it('should read the wait time from a 429 Retry-After header', () => {
+    const error = new HttpErrorResponse({
+      status: 429,
+      headers: new HttpHeaders({ 'Retry-After': '45' }),
+      error: { message: 'Slow down' }
+    });
+
+    expect(parseLoginError(error)).toEqual({ kind: 'throttled', message: 'Slow down', retryAfterSeconds: 45 });
+  });
+
+  it('should recognise locked accounts', () => {
+    const error = new HttpErrorResponse({ status: 403, error: { code: ACCOUNT_LOCKED_CODE } });
+
+    expect(parseLoginError(error).kind).toBe('locked');
+  });
+
+  it('should fall back to the backend message for other errors', () => {
+    const error = new HttpErrorResponse({ status: 401, error: { message: 'Invalid email or password' } });
+
+    expect(parseLoginError(error)).toEqual({ kind: 'other', message: 'Invalid email or password' });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should accept an HTTP date', () => {
+    const now = Date.parse('Mon, 19 Oct 2026 10:00:00 GMT');
+    expect(parseRetryAfter('Mon, 19 Oct 2026 10:01:30 GMT', undefined, now)).toBe(90);
+  });
+
+  it('should use the body value when the header is not exposed', () => {
+    expect(parseRetryAfter(null, 12)).toBe(12);
+  });
+
+  it('should use a default for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBe(30);
+    expect(parseRetryAfter('soon')).toBe(30);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { parseApiError } from '../utils/api-error';
+
+// Error code the backend sends with 423 (or 403) when an account is locked after too many failed logins
+export const ACCOUNT_LOCKED_CODE = 'AccountLocked';
+
+// What went wrong with a login attempt, in a shape the login form can act on
+export type LoginError =
+  | { kind: 'throttled'; message: string; retryAfterSeconds: number }
+  | { kind: 'locked'; message: string; lockedUntil?: Date }
+  | { kind: 'other'; message: string };
+
+// Fallback wait when a 429 comes without a usable Retry-After
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+export function parseLoginError(error: HttpErrorResponse, fallbackMessage = 'Login failed. Please try again.'): LoginError {
+  const body = error.error ?? {};
+
+  if (error.status === 429) {
+    return {
+      kind: 'throttled',
+      message: body.message || 'Too many login attempts.',
+      retryAfterSeconds: parseRetryAfter(error.headers?.get('Retry-After'), body.retryAfter)
+    };
+  }
+
+  if (error.status === 423 || body.code === ACCOUNT_LOCKED_CODE) {
+    const lockedUntil = body.lockedUntil ? new Date(body.lockedUntil) : undefined;
+    return {
+      kind: 'locked',
+      message: body.message || 'Your account has been locked after too many failed login attempts.',
+      lockedUntil: lockedUntil && !isNaN(lockedUntil.getTime()) ? lockedUntil : undefined
+    };
+  }
+
+  return { kind: 'other', message: parseApiError(error, fallbackMessage).message };
+}
+
+// Retry-After is either a number of seconds or an HTTP date (RFC 9110)
+// Cross-origin the header is only readable if the backend lists it in Access-Control-Expose-Headers,
+// so a retryAfter field in the body is accepted as well
+export function parseRetryAfter(header: string | null | undefined, bodyValue?: unknown, now = Date.now()): number {
+  const value = header ?? (bodyValue != null ? String(bodyValue) : null);
+  if (!value) {
+    return DEFAULT_RETRY_AFTER_SECONDS;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Math.max(1, parseInt(trimmed, 10));
+  }
+
+  const date = Date.parse(trimmed);
+  if (!isNaN(date)) {
+    return Math.max(1, Math.ceil((date - now) / 1000));
+  }
+  return DEFAULT_RETRY_AFTER_SECONDS;
+}
\ No newline at end of file
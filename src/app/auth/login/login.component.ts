@@ -1,6 +1,7 @@
-import { Component } from '@angular/core';
+import { Component, Input, OnDestroy } from '@angular/core';
 import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
-import { Router } from '@angular/router';
+import { Router, RouterLink } from '@angular/router';
+import { Subscription, interval } from 'rxjs';
 import { AuthService } from '../auth.service';
 import { CommonModule } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
@@ -8,11 +9,17 @@ import { MatInputModule } from '@angular/material/input';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { getSafeReturnUrl } from '../../utils/return-url';
+import { ResendVerificationComponent } from '../resend-verification/resend-verification.component';
+import { IdentityProviderService } from '../identity-providers/identity-provider.service';
+import { IdentityProvider } from '../identity-providers/identity-provider';
+import { LoginError, parseLoginError } from '../login-error';
+import { applyApiErrorToForm, parseApiError } from '../../utils/api-error';
 
 @Component({
   selector: 'app-login',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, MatCardModule, MatInputModule, MatButtonModule, MatIconModule, MatProgressSpinnerModule],
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, MatCardModule, MatInputModule, MatButtonModule, MatIconModule, MatProgressSpinnerModule, ResendVerificationComponent],
   template: `
     <div class="login-container">
       <mat-card class="login-card">
@@ -25,44 +32,142 @@ import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
         </mat-card-header>
         
         <mat-card-content>
-          <form [formGroup]="loginForm" (ngSubmit)="onSubmit()" class="login-form">
-            <mat-form-field appearance="outline" class="full-width">
-              <mat-label>Email</mat-label>
-              <input matInput type="email" formControlName="email" required>
-              <mat-icon matSuffix>email</mat-icon>
-              <mat-error *ngIf="loginForm.get('email')?.hasError('required')">
-                Email is required
-              </mat-error>
-              <mat-error *ngIf="loginForm.get('email')?.hasError('email')">
-                Please enter a valid email
-              </mat-error>
-            </mat-form-field>
-
-            <mat-form-field appearance="outline" class="full-width">
-              <mat-label>Password</mat-label>
-              <input matInput type="password" formControlName="password" required>
-              <mat-icon matSuffix>lock</mat-icon>
-              <mat-error *ngIf="loginForm.get('password')?.hasError('required')">
-                Password is required
-              </mat-error>
-            </mat-form-field>
-
-            <div class="error-message" *ngIf="errorMessage">
-              <mat-icon>error</mat-icon>
-              {{ errorMessage }}
-            </div>
-
-            <button
-              type="submit"
-              mat-raised-button
-              color="primary"
-              class="login-button"
-              [disabled]="loginForm.invalid || isLoading">
-              <mat-spinner *ngIf="isLoading" diameter="20" class="button-spinner"></mat-spinner>
-              <mat-icon *ngIf="!isLoading">login</mat-icon>
-              Login
-            </button>
-          </form>
+          <div class="info-message" *ngIf="reason === 'idle'">
+            <mat-icon>timer_off</mat-icon>
+            You were logged out after a period of inactivity. Please sign in again.
+          </div>
+
+          @if (step === 'credentials') {
+            <form [formGroup]="loginForm" (ngSubmit)="onSubmit()" class="login-form">
+              <mat-form-field appearance="outline" class="full-width">
+                <mat-label>Email</mat-label>
+                <input matInput type="email" formControlName="email" required>
+                <mat-icon matSuffix>email</mat-icon>
+                <mat-error *ngIf="loginForm.get('email')?.hasError('required')">
+                  Email is required
+                </mat-error>
+                <mat-error *ngIf="loginForm.get('email')?.hasError('email')">
+                  Please enter a valid email
+                </mat-error>
+                <mat-error *ngIf="loginForm.get('email')?.hasError('server')">
+                  {{ loginForm.get('email')?.getError('server') }}
+                </mat-error>
+              </mat-form-field>
+
+              <mat-form-field appearance="outline" class="full-width">
+                <mat-label>Password</mat-label>
+                <input matInput type="password" formControlName="password" required>
+                <mat-icon matSuffix>lock</mat-icon>
+                <mat-error *ngIf="loginForm.get('password')?.hasError('required')">
+                  Password is required
+                </mat-error>
+                <mat-error *ngIf="loginForm.get('password')?.hasError('server')">
+                  {{ loginForm.get('password')?.getError('server') }}
+                </mat-error>
+              </mat-form-field>
+
+              <div class="forgot-password">
+                <a mat-button color="primary" routerLink="/forgot-password">Forgot password?</a>
+              </div>
+
+              <div class="error-message" *ngIf="errorMessage">
+                <mat-icon>error</mat-icon>
+                {{ errorMessage }}
+              </div>
+
+              <div class="error-message" *ngIf="retryAfterSeconds > 0">
+                <mat-icon>hourglass_top</mat-icon>
+                {{ throttledMessage }} You can try again in {{ formatCountdown(retryAfterSeconds) }}.
+              </div>
+
+              <div class="locked-message" *ngIf="lockedMessage">
+                <div class="locked-text">
+                  <mat-icon>lock</mat-icon>
+                  {{ lockedMessage }}
+                </div>
+                <a mat-button color="primary" routerLink="/forgot-password">Reset your password to unlock it</a>
+              </div>
+
+              <app-resend-verification *ngIf="unverifiedEmail" [email]="unverifiedEmail"></app-resend-verification>
+
+              <button
+                type="submit"
+                mat-raised-button
+                color="primary"
+                class="login-button"
+                [disabled]="loginForm.invalid || isLoading || retryAfterSeconds > 0">
+                <mat-spinner *ngIf="isLoading" diameter="20" class="button-spinner"></mat-spinner>
+                <mat-icon *ngIf="!isLoading">login</mat-icon>
+                Login
+              </button>
+            </form>
+
+            @if (identityProviders.length) {
+              <div class="divider"><span>or</span></div>
+              <div class="external-providers">
+                @for (provider of identityProviders; track provider.config.id) {
+                  <button type="button" mat-stroked-button class="full-width"
+                          [disabled]="isLoading" (click)="signInWith(provider)">
+                    <mat-icon>{{ provider.config.icon || 'account_circle' }}</mat-icon>
+                    Sign in with {{ provider.config.displayName }}
+                  </button>
+                }
+              </div>
+            }
+          } @else {
+            <form [formGroup]="twoFactorForm" (ngSubmit)="onSubmitTwoFactor()" class="login-form">
+              <p class="two-factor-hint">
+                @if (useRecoveryCode) {
+                  Enter one of the recovery codes you saved when you turned on two-factor authentication.
+                } @else {
+                  Open your authenticator app and enter the 6-digit code for this account.
+                }
+              </p>
+
+              <mat-form-field appearance="outline" class="full-width">
+                <mat-label>{{ useRecoveryCode ? 'Recovery code' : 'Authentication code' }}</mat-label>
+                <input matInput formControlName="code" autocomplete="one-time-code" required
+                       [attr.inputmode]="useRecoveryCode ? null : 'numeric'">
+                <mat-icon matSuffix>{{ useRecoveryCode ? 'key' : 'pin' }}</mat-icon>
+                <mat-error *ngIf="twoFactorForm.get('code')?.hasError('required')">
+                  Code is required
+                </mat-error>
+                <mat-error *ngIf="twoFactorForm.get('code')?.hasError('pattern')">
+                  Enter the 6 digits from your app
+                </mat-error>
+              </mat-form-field>
+
+              <div class="error-message" *ngIf="errorMessage">
+                <mat-icon>error</mat-icon>
+                {{ errorMessage }}
+              </div>
+
+              <div class="error-message" *ngIf="retryAfterSeconds > 0">
+                <mat-icon>hourglass_top</mat-icon>
+                {{ throttledMessage }} You can try again in {{ formatCountdown(retryAfterSeconds) }}.
+              </div>
+
+              <button
+                type="submit"
+                mat-raised-button
+                color="primary"
+                class="login-button"
+                [disabled]="twoFactorForm.invalid || isLoading || retryAfterSeconds > 0">
+                <mat-spinner *ngIf="isLoading" diameter="20" class="button-spinner"></mat-spinner>
+                <mat-icon *ngIf="!isLoading">verified_user</mat-icon>
+                Verify
+              </button>
+
+              <div class="two-factor-links">
+                <button type="button" mat-button color="primary" (click)="toggleRecoveryCode()">
+                  {{ useRecoveryCode ? 'Use authenticator app instead' : 'Use a recovery code' }}
+                </button>
+                <button type="button" mat-button (click)="backToCredentials()">
+                  Back
+                </button>
+              </div>
+            </form>
+          }
         </mat-card-content>
         
         <mat-card-actions class="card-actions-center">
@@ -112,6 +217,56 @@ import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
       margin-right: 8px;
     }
 
+    .forgot-password {
+      display: flex;
+      justify-content: flex-end;
+      margin-top: -16px;
+    }
+
+    .divider {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      margin: 24px 0 16px;
+      color: rgba(0, 0, 0, 0.6);
+      font-size: 14px;
+    }
+
+    .divider::before,
+    .divider::after {
+      content: '';
+      flex: 1;
+      border-top: 1px solid rgba(0, 0, 0, 0.12);
+    }
+
+    .external-providers {
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+    }
+
+    .two-factor-hint {
+      margin: 0;
+      color: rgba(0, 0, 0, 0.6);
+      font-size: 14px;
+    }
+
+    .two-factor-links {
+      display: flex;
+      justify-content: space-between;
+    }
+
+    .info-message {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      color: #1565c0;
+      background-color: #e3f2fd;
+      padding: 12px;
+      border-radius: 4px;
+      font-size: 14px;
+    }
+
     .error-message {
       display: flex;
       align-items: center;
@@ -123,6 +278,24 @@ import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
       font-size: 14px;
     }
 
+    .locked-message {
+      display: flex;
+      flex-direction: column;
+      align-items: flex-start;
+      gap: 4px;
+      color: #e65100;
+      background-color: #fff3e0;
+      padding: 12px;
+      border-radius: 4px;
+      font-size: 14px;
+    }
+
+    .locked-text {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
     mat-card-header {
       margin-bottom: 16px;
     }
@@ -225,41 +398,173 @@ import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
     }
   `]
 })
-export class LoginComponent {
+export class LoginComponent implements OnDestroy {
+  // Bound from the ?returnUrl= query param set by authGuard
+  @Input() returnUrl?: string;
+  // Why the user ended up here, e.g. 'idle' after the inactivity logout
+  @Input() reason?: string;
+
   loginForm: FormGroup;
+  twoFactorForm: FormGroup;
+  // 'credentials' = email/password, 'twoFactor' = the backend asked for a 2FA code
+  step: 'credentials' | 'twoFactor' = 'credentials';
+  useRecoveryCode: boolean = false;
   errorMessage: string = '';
+  // Set when the backend refuses login because the email isn't confirmed yet
+  unverifiedEmail: string = '';
   isLoading: boolean = false;
+  // Set while the backend rate-limits login attempts (429) - submit stays disabled until it reaches 0
+  retryAfterSeconds: number = 0;
+  throttledMessage: string = '';
+  // Set when the account is locked - only a password reset (or waiting) helps
+  lockedMessage: string = '';
+  private retryCountdown?: Subscription;
+  // External sign-in buttons, configured in environment.identityProviders
+  identityProviders: IdentityProvider[];
 
   constructor(
     private fb: FormBuilder,
     private authService: AuthService,
-    private router: Router
+    private router: Router,
+    identityProviderService: IdentityProviderService
   ) {
+    this.identityProviders = identityProviderService.providers;
     this.loginForm = this.fb.group({
       email: ['', [Validators.required, Validators.email]],
       password: ['', Validators.required]
     });
+    this.twoFactorForm = this.fb.group({
+      code: ['', [Validators.required, Validators.pattern(/^\d{6}$/)]]
+    });
   }
 
   onSubmit() {
     if (this.loginForm.valid) {
       this.isLoading = true;
       this.errorMessage = '';
+      this.lockedMessage = '';
+      this.unverifiedEmail = '';
 
       this.authService.login(this.loginForm.value).subscribe({
         next: (response) => {
           this.isLoading = false;
-          this.router.navigate(['/']);
+          if (response.requiresTwoFactor) {
+            this.step = 'twoFactor';
+            return;
+          }
+          this.router.navigateByUrl(getSafeReturnUrl(this.returnUrl));
+        },
+        error: (error) => {
+          this.isLoading = false;
+          if (this.authService.isEmailNotVerifiedError(error)) {
+            this.unverifiedEmail = this.loginForm.value.email;
+            this.errorMessage = parseApiError(error, 'Please confirm your email address before logging in.').message;
+            return;
+          }
+          const apiError = parseApiError(error);
+          if (apiError.kind === 'validation') {
+            this.errorMessage = applyApiErrorToForm(this.loginForm, apiError);
+            return;
+          }
+          this.showLoginError(parseLoginError(error));
+        }
+      });
+    }
+  }
+
+  onSubmitTwoFactor() {
+    if (this.twoFactorForm.valid) {
+      this.isLoading = true;
+      this.errorMessage = '';
+
+      const code = this.twoFactorForm.value.code.trim();
+      const twoFactorData = this.useRecoveryCode ? { recoveryCode: code } : { code };
+
+      this.authService.verifyTwoFactor(twoFactorData).subscribe({
+        next: () => {
+          this.isLoading = false;
+          this.router.navigateByUrl(getSafeReturnUrl(this.returnUrl));
         },
         error: (error) => {
           this.isLoading = false;
-          this.errorMessage = error.error?.message || 'Login failed. Please try again.';
+          this.showLoginError(parseLoginError(error, 'Invalid code. Please try again.'));
         }
       });
     }
   }
 
+  ngOnDestroy() {
+    this.retryCountdown?.unsubscribe();
+  }
+
+  // 2:05 for long waits, 45s for short ones
+  formatCountdown(seconds: number): string {
+    if (seconds < 60) {
+      return `${seconds}s`;
+    }
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  }
+
+  private showLoginError(error: LoginError) {
+    switch (error.kind) {
+      case 'throttled':
+        this.throttledMessage = error.message;
+        this.startRetryCountdown(error.retryAfterSeconds);
+        break;
+      case 'locked':
+        this.lockedMessage = error.lockedUntil
+          ? `${error.message} It unlocks at ${error.lockedUntil.toLocaleTimeString()}.`
+          : error.message;
+        break;
+      default:
+        this.errorMessage = error.message;
+    }
+  }
+
+  private startRetryCountdown(seconds: number) {
+    this.retryCountdown?.unsubscribe();
+    this.retryAfterSeconds = seconds;
+    this.retryCountdown = interval(1000).subscribe(() => {
+      this.retryAfterSeconds--;
+      if (this.retryAfterSeconds <= 0) {
+        this.retryCountdown?.unsubscribe();
+      }
+    });
+  }
+
+  // Leaves the app - the provider sends the browser back to /auth/callback
+  signInWith(provider: IdentityProvider) {
+    this.isLoading = true;
+    this.errorMessage = '';
+    provider.signIn(this.returnUrl).catch(() => {
+      this.isLoading = false;
+      this.errorMessage = `Could not reach ${provider.config.displayName}. Please try again.`;
+    });
+  }
+
+  // Recovery codes are longer and not just digits, so swap the validators
+  toggleRecoveryCode() {
+    this.useRecoveryCode = !this.useRecoveryCode;
+    this.errorMessage = '';
+    const codeControl = this.twoFactorForm.get('code')!;
+    codeControl.setValidators(this.useRecoveryCode
+      ? Validators.required
+      : [Validators.required, Validators.pattern(/^\d{6}$/)]);
+    codeControl.reset('');
+  }
+
+  backToCredentials() {
+    if (this.useRecoveryCode) {
+      this.toggleRecoveryCode();
+    }
+    this.step = 'credentials';
+    this.errorMessage = '';
+    this.twoFactorForm.reset({ code: '' });
+    this.loginForm.get('password')?.reset('');
+  }
+
   goToRegister() {
-    this.router.navigate(['/register']);
+    // Keep the return URL so register-then-login still ends up in the right place
+    this.router.navigate(['/register'], { queryParams: { returnUrl: this.returnUrl } });
   }
 }
\ No newline at end of file
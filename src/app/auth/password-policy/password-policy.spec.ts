@@ -0,0 +1,35 @@
+import { PasswordPolicy, evaluatePassword } from './password-policy';
+
+describe('evaluatePassword', () => {
+  const policy: PasswordPolicy = {
+    minLength: 8,
+    requireUppercase: true,
+    requireLowercase: true,
+    requireDigit: true,
+    requireSymbol: false,
+    blockCommonPasswords: true,
+    disallowPersonalInfo: true
+  };
+
+  function failedRules(password: string, context = {}) {
+    return evaluatePassword(password, policy, context).filter(rule => !rule.passed).map(rule => rule.id);
+  }
+
+  it('should pass a password that meets every rule', () => {
+    expect(failedRules('Blue-Horse7')).toEqual([]);
+  });
+
+  it('should list each failing rule', () => {
+    expect(failedRules('abc')).toEqual(['minLength', 'uppercase', 'digit']);
+  });
+
+  it('should reject common passwords regardless of case', () => {
+    expect(failedRules('Password123')).toContain('common');
+  });
+
+  it('should reject passwords containing the name or email', () => {
+    const context = { email: 'jane.doe@example.com', firstName: 'Jane', lastName: 'Doe' };
+    expect(failedRules('Jane2024Rocks', context)).toEqual(['personalInfo']);
+    expect(failedRules('Xjane.doe99', context)).toEqual(['personalInfo']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,105 @@
+/**
+ * Password policy engine
+ * Turns a configurable set of rules into a pass/fail list the UI can show
+ */
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  blockCommonPasswords: boolean;
+  disallowPersonalInfo: boolean;
+}
+
+// Personal details the password must not contain
+export interface PasswordContext {
+  email?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+}
+
+export type PasswordRuleId = 'minLength' | 'uppercase' | 'lowercase' | 'digit' | 'symbol' | 'common' | 'personalInfo';
+
+export interface PasswordRuleResult {
+  id: PasswordRuleId;
+  label: string;
+  passed: boolean;
+}
+
+export type PasswordStrength = 'weak' | 'fair' | 'good' | 'strong';
+
+// Short list of the most used passwords - the backend keeps the full list
+export const COMMON_PASSWORDS = [
+  '123456', '123456789', '12345678', '1234567890', '12345', '1234567', '111111', '000000',
+  'password', 'password1', 'password123', 'passw0rd', 'qwerty', 'qwerty123', 'qwertyuiop',
+  'abc123', 'iloveyou', 'admin', 'admin123', 'welcome', 'welcome1', 'letmein', 'monkey',
+  'dragon', 'football', 'baseball', 'sunshine', 'princess', 'master', 'login', 'secret',
+  '1q2w3e4r', 'zaq12wsx', 'trustno1', 'starwars', 'changeme'
+];
+
+export function evaluatePassword(password: string, policy: PasswordPolicy, context: PasswordContext = {}): PasswordRuleResult[] {
+  const value = password || '';
+  const results: PasswordRuleResult[] = [
+    { id: 'minLength', label: `At least ${policy.minLength} characters`, passed: value.length >= policy.minLength }
+  ];
+
+  if (policy.requireUppercase) {
+    results.push({ id: 'uppercase', label: 'An uppercase letter', passed: /[A-Z]/.test(value) });
+  }
+  if (policy.requireLowercase) {
+    results.push({ id: 'lowercase', label: 'A lowercase letter', passed: /[a-z]/.test(value) });
+  }
+  if (policy.requireDigit) {
+    results.push({ id: 'digit', label: 'A number', passed: /\d/.test(value) });
+  }
+  if (policy.requireSymbol) {
+    results.push({ id: 'symbol', label: 'A symbol (e.g. ! ? # %)', passed: /[^A-Za-z0-9]/.test(value) });
+  }
+  if (policy.blockCommonPasswords) {
+    results.push({ id: 'common', label: 'Not a commonly used password', passed: !!value && !isCommonPassword(value) });
+  }
+  if (policy.disallowPersonalInfo) {
+    results.push({ id: 'personalInfo', label: 'Does not contain your name or email', passed: !!value && !containsPersonalInfo(value, context) });
+  }
+
+  return results;
+}
+
+// Rough 0-100 score for the meter - passing the policy is checked separately
+export function scorePassword(password: string): number {
+  const value = password || '';
+  if (!value || isCommonPassword(value)) {
+    return 0;
+  }
+
+  let score = Math.min(value.length, 16) * 4;
+  if (/[a-z]/.test(value)) score += 8;
+  if (/[A-Z]/.test(value)) score += 8;
+  if (/\d/.test(value)) score += 8;
+  if (/[^A-Za-z0-9]/.test(value)) score += 12;
+  return Math.min(score, 100);
+}
+
+export function getPasswordStrength(score: number): PasswordStrength {
+  if (score >= 85) return 'strong';
+  if (score >= 65) return 'good';
+  if (score >= 40) return 'fair';
+  return 'weak';
+}
+
+function isCommonPassword(password: string): boolean {
+  return COMMON_PASSWORDS.includes(password.toLowerCase());
+}
+
+function containsPersonalInfo(password: string, context: PasswordContext): boolean {
+  const lowered = password.toLowerCase();
+  const emailName = context.email?.split('@')[0];
+  const parts = [emailName, context.firstName, context.lastName]
+    .map(part => (part || '').trim().toLowerCase())
+    // Very short names ("Al") would block too many passwords
+    .filter(part => part.length >= 3);
+
+  return parts.some(part => lowered.includes(part));
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+import { PasswordContext, PasswordPolicy, evaluatePassword } from './password-policy';
+import { environment } from '../../../environments/environment';
+
+// Reads email/firstName/lastName from the same form group (e.g. the register form)
+function siblingContext(control: AbstractControl): PasswordContext {
+  const parent = control.parent;
+  return {
+    email: parent?.get('email')?.value,
+    firstName: parent?.get('firstName')?.value,
+    lastName: parent?.get('lastName')?.value
+  };
+}
+
+// Reactive-forms validator for the password policy
+// Error shape: { passwordPolicy: { failed: ['minLength', 'digit', ...] } }
+// Pass getContext when the personal info isn't in the same form (e.g. change password)
+export function passwordPolicyValidator(
+  policy: PasswordPolicy = environment.passwordPolicy,
+  getContext?: () => PasswordContext
+): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    // Empty values are handled by Validators.required
+    if (!control.value) {
+      return null;
+    }
+
+    const context = getContext ? getContext() : siblingContext(control);
+    const failed = evaluatePassword(control.value, policy, context)
+      .filter(rule => !rule.passed)
+      .map(rule => rule.id);
+
+    return failed.length ? { passwordPolicy: { failed } } : null;
+  };
+}
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import {
+  PasswordContext,
+  PasswordPolicy,
+  PasswordRuleResult,
+  PasswordStrength,
+  evaluatePassword,
+  getPasswordStrength,
+  scorePassword
+} from './password-policy';
+import { environment } from '../../../environments/environment';
+
+// Live strength bar + checklist of the policy rules, shown under a "new password" field
+@Component({
+  selector: 'app-password-strength-meter',
+  standalone: true,
+  imports: [CommonModule, MatIconModule, MatProgressBarModule],
+  template: `
+    <div class="strength-meter">
+      @if (password) {
+        <div class="strength-bar" [class]="'strength-' + strength">
+          <mat-progress-bar mode="determinate" [value]="score"></mat-progress-bar>
+          <span class="strength-label">{{ strength | titlecase }}</span>
+        </div>
+      }
+      <ul class="rules">
+        @for (rule of rules; track rule.id) {
+          <li [class.passed]="rule.passed">
+            <mat-icon>{{ rule.passed ? 'check_circle' : 'radio_button_unchecked' }}</mat-icon>
+            {{ rule.label }}
+          </li>
+        }
+      </ul>
+    </div>
+  `,
+  styles: [`
+    .strength-meter {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      margin-top: -8px;
+    }
+
+    .strength-bar {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+    }
+
+    .strength-label {
+      min-width: 48px;
+      font-size: 12px;
+      font-weight: 500;
+    }
+
+    .strength-weak { --mdc-linear-progress-active-indicator-color: #f44336; color: #f44336; }
+    .strength-fair { --mdc-linear-progress-active-indicator-color: #ff9800; color: #ff9800; }
+    .strength-good { --mdc-linear-progress-active-indicator-color: #8bc34a; color: #689f38; }
+    .strength-strong { --mdc-linear-progress-active-indicator-color: #4caf50; color: #4caf50; }
+
+    .rules {
+      display: grid;
+      grid-template-columns: repeat(2, minmax(0, 1fr));
+      gap: 4px 12px;
+      margin: 0;
+      padding: 0;
+      list-style: none;
+    }
+
+    .rules li {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      font-size: 12px;
+      color: rgba(0, 0, 0, 0.6);
+    }
+
+    .rules li.passed {
+      color: #4caf50;
+    }
+
+    .rules mat-icon {
+      font-size: 16px;
+      width: 16px;
+      height: 16px;
+    }
+
+    @media (max-width: 600px) {
+      .rules {
+        grid-template-columns: 1fr;
+      }
+    }
+  `]
+})
+export class PasswordStrengthMeterComponent implements OnChanges {
+  @Input() password: string | null | undefined = '';
+  @Input() context: PasswordContext = {};
+  @Input() policy: PasswordPolicy = environment.passwordPolicy;
+
+  rules: PasswordRuleResult[] = [];
+  score = 0;
+  strength: PasswordStrength = 'weak';
+
+  ngOnChanges() {
+    const password = this.password || '';
+    this.rules = evaluatePassword(password, this.policy, this.context);
+    this.score = scorePassword(password);
+    this.strength = getPasswordStrength(this.score);
+  }
+}
\ No newline at end of file
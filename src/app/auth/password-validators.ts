@@ -0,0 +1,21 @@
+import { AbstractControl, ValidationErrors, Validators } from '@angular/forms';
+import { passwordPolicyValidator } from './password-policy/password-policy.validator';
+
+// Password rules shared by register, reset-password and any other "new password" form
+// The rules themselves come from environment.passwordPolicy
+export const passwordValidators = [Validators.required, passwordPolicyValidator()];
+
+// Group validator: checks that 'password' and 'confirmPassword' are the same
+// Also sets the error on confirmPassword so the mat-error shows next to that field
+export function passwordMatchValidator(form: AbstractControl): ValidationErrors | null {
+  const password = form.get('password');
+  const confirmPassword = form.get('confirmPassword');
+
+  if (password?.value !== confirmPassword?.value) {
+    confirmPassword?.setErrors({ passwordMismatch: true });
+    return { passwordMismatch: true };
+  } else {
+    confirmPassword?.setErrors(null);
+    return null;
+  }
+}
\ No newline at end of file
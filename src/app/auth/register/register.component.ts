@@ -1,4 +1,4 @@
-import { Component } from '@angular/core';
+import { Component, Input } from '@angular/core';
 import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
 import { Router } from '@angular/router';
 import { AuthService } from '../auth.service';
@@ -9,11 +9,15 @@ import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { capitalizeNames } from '../../utils/name-utils';
+import { passwordMatchValidator, passwordValidators } from '../password-validators';
+import { ResendVerificationComponent } from '../resend-verification/resend-verification.component';
+import { PasswordStrengthMeterComponent } from '../password-policy/password-strength-meter.component';
+import { applyApiErrorToForm, parseApiError } from '../../utils/api-error';
 
 @Component({
   selector: 'app-register',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, MatCardModule, MatInputModule, MatButtonModule, MatIconModule, MatProgressSpinnerModule],
+  imports: [CommonModule, ReactiveFormsModule, MatCardModule, MatInputModule, MatButtonModule, MatIconModule, MatProgressSpinnerModule, ResendVerificationComponent, PasswordStrengthMeterComponent],
   template: `
     <div class="register-container">
       <mat-card class="register-card">
@@ -26,78 +30,100 @@ import { capitalizeNames } from '../../utils/name-utils';
         </mat-card-header>
         
         <mat-card-content>
-          <form [formGroup]="registerForm" (ngSubmit)="onSubmit()" class="register-form">
-            <div class="name-row">
-              <mat-form-field appearance="outline" class="half-width">
-                <mat-label>First Name</mat-label>
-                <input matInput formControlName="firstName" class="name-input">
-                <mat-icon matSuffix>person</mat-icon>
+          @if (registeredEmail) {
+            <div class="check-inbox">
+              <mat-icon class="check-inbox-icon">mark_email_unread</mat-icon>
+              <h3>Check your inbox</h3>
+              <p>We sent a confirmation link to <strong>{{ registeredEmail }}</strong>.
+                 Click it to activate your account, then log in.</p>
+              <app-resend-verification [email]="registeredEmail"></app-resend-verification>
+            </div>
+          } @else {
+            <form [formGroup]="registerForm" (ngSubmit)="onSubmit()" class="register-form">
+              <div class="name-row">
+                <mat-form-field appearance="outline" class="half-width">
+                  <mat-label>First Name</mat-label>
+                  <input matInput formControlName="firstName" class="name-input">
+                  <mat-icon matSuffix>person</mat-icon>
+                  <mat-error *ngIf="registerForm.get('firstName')?.hasError('server')">
+                    {{ registerForm.get('firstName')?.getError('server') }}
+                  </mat-error>
+                </mat-form-field>
+
+                <mat-form-field appearance="outline" class="half-width">
+                  <mat-label>Last Name</mat-label>
+                  <input matInput formControlName="lastName" class="name-input">
+                  <mat-icon matSuffix>person</mat-icon>
+                  <mat-error *ngIf="registerForm.get('lastName')?.hasError('server')">
+                    {{ registerForm.get('lastName')?.getError('server') }}
+                  </mat-error>
+                </mat-form-field>
+              </div>
+
+              <mat-form-field appearance="outline" class="full-width">
+                <mat-label>Email</mat-label>
+                <input matInput type="email" formControlName="email" required>
+                <mat-icon matSuffix>email</mat-icon>
+                <mat-error *ngIf="registerForm.get('email')?.hasError('required')">
+                  Email is required
+                </mat-error>
+                <mat-error *ngIf="registerForm.get('email')?.hasError('email')">
+                  Please enter a valid email
+                </mat-error>
+                <mat-error *ngIf="registerForm.get('email')?.hasError('server')">
+                  {{ registerForm.get('email')?.getError('server') }}
+                </mat-error>
               </mat-form-field>
 
-              <mat-form-field appearance="outline" class="half-width">
-                <mat-label>Last Name</mat-label>
-                <input matInput formControlName="lastName" class="name-input">
-                <mat-icon matSuffix>person</mat-icon>
+              <mat-form-field appearance="outline" class="full-width">
+                <mat-label>Password</mat-label>
+                <input matInput type="password" formControlName="password" required>
+                <mat-icon matSuffix>lock</mat-icon>
+                <mat-error *ngIf="registerForm.get('password')?.hasError('required')">
+                  Password is required
+                </mat-error>
+                <mat-error *ngIf="registerForm.get('password')?.hasError('passwordPolicy')">
+                  Password doesn't meet the requirements below
+                </mat-error>
+                <mat-error *ngIf="registerForm.get('password')?.hasError('server')">
+                  {{ registerForm.get('password')?.getError('server') }}
+                </mat-error>
               </mat-form-field>
-            </div>
-
-            <mat-form-field appearance="outline" class="full-width">
-              <mat-label>Email</mat-label>
-              <input matInput type="email" formControlName="email" required>
-              <mat-icon matSuffix>email</mat-icon>
-              <mat-error *ngIf="registerForm.get('email')?.hasError('required')">
-                Email is required
-              </mat-error>
-              <mat-error *ngIf="registerForm.get('email')?.hasError('email')">
-                Please enter a valid email
-              </mat-error>
-            </mat-form-field>
-
-            <mat-form-field appearance="outline" class="full-width">
-              <mat-label>Password</mat-label>
-              <input matInput type="password" formControlName="password" required>
-              <mat-icon matSuffix>lock</mat-icon>
-              <mat-error *ngIf="registerForm.get('password')?.hasError('required')">
-                Password is required
-              </mat-error>
-              <mat-error *ngIf="registerForm.get('password')?.hasError('minlength')">
-                Password must be at least 6 characters
-              </mat-error>
-            </mat-form-field>
-
-            <mat-form-field appearance="outline" class="full-width">
-              <mat-label>Confirm Password</mat-label>
-              <input matInput type="password" formControlName="confirmPassword" required>
-              <mat-icon matSuffix>lock</mat-icon>
-              <mat-error *ngIf="registerForm.get('confirmPassword')?.hasError('required')">
-                Please confirm your password
-              </mat-error>
-              <mat-error *ngIf="registerForm.get('confirmPassword')?.hasError('passwordMismatch')">
-                Passwords do not match
-              </mat-error>
-            </mat-form-field>
-
-            <div class="error-message" *ngIf="errorMessage">
-              <mat-icon>error</mat-icon>
-              {{ errorMessage }}
-            </div>
 
-            <div class="success-message" *ngIf="successMessage">
-              <mat-icon>check_circle</mat-icon>
-              {{ successMessage }}
-            </div>
+              <app-password-strength-meter
+                [password]="registerForm.get('password')?.value"
+                [context]="registerForm.value">
+              </app-password-strength-meter>
+
+              <mat-form-field appearance="outline" class="full-width">
+                <mat-label>Confirm Password</mat-label>
+                <input matInput type="password" formControlName="confirmPassword" required>
+                <mat-icon matSuffix>lock</mat-icon>
+                <mat-error *ngIf="registerForm.get('confirmPassword')?.hasError('required')">
+                  Please confirm your password
+                </mat-error>
+                <mat-error *ngIf="registerForm.get('confirmPassword')?.hasError('passwordMismatch')">
+                  Passwords do not match
+                </mat-error>
+              </mat-form-field>
 
-            <button
-              type="submit"
-              mat-raised-button
-              color="primary"
-              class="register-button"
-              [disabled]="registerForm.invalid || isLoading">
-              <mat-spinner *ngIf="isLoading" diameter="20" class="button-spinner"></mat-spinner>
-              <mat-icon *ngIf="!isLoading">person_add</mat-icon>
-              Create Account
-            </button>
-          </form>
+              <div class="error-message" *ngIf="errorMessage">
+                <mat-icon>error</mat-icon>
+                {{ errorMessage }}
+              </div>
+
+              <button
+                type="submit"
+                mat-raised-button
+                color="primary"
+                class="register-button"
+                [disabled]="registerForm.invalid || isLoading">
+                <mat-spinner *ngIf="isLoading" diameter="20" class="button-spinner"></mat-spinner>
+                <mat-icon *ngIf="!isLoading">person_add</mat-icon>
+                Create Account
+              </button>
+            </form>
+          }
         </mat-card-content>
         
         <mat-card-actions class="card-actions-center">
@@ -167,15 +193,25 @@ import { capitalizeNames } from '../../utils/name-utils';
       font-size: 14px;
     }
 
-    .success-message {
+    .check-inbox {
       display: flex;
+      flex-direction: column;
       align-items: center;
+      text-align: center;
       gap: 8px;
+      margin-top: 20px;
+    }
+
+    .check-inbox-icon {
+      font-size: 64px;
+      width: 64px;
+      height: 64px;
       color: #4caf50;
-      background-color: #e8f5e8;
-      padding: 12px;
-      border-radius: 4px;
-      font-size: 14px;
+    }
+
+    .check-inbox p {
+      color: rgba(0, 0, 0, 0.6);
+      margin-bottom: 16px;
     }
 
     mat-card-header {
@@ -256,7 +292,7 @@ import { capitalizeNames } from '../../utils/name-utils';
         margin-top: 24px;
       }
 
-      .error-message, .success-message {
+      .error-message {
         padding: 16px;
         font-size: 14px;
       }
@@ -294,9 +330,13 @@ import { capitalizeNames } from '../../utils/name-utils';
   `]
 })
 export class RegisterComponent {
+  // Passed along from the login page so we can return there afterwards
+  @Input() returnUrl?: string;
+
   registerForm: FormGroup;
   errorMessage: string = '';
-  successMessage: string = '';
+  // Set after a successful registration - switches the card to "check your inbox"
+  registeredEmail: string = '';
   isLoading: boolean = false;
 
   constructor(
@@ -308,29 +348,22 @@ export class RegisterComponent {
       firstName: [''],
       lastName: [''],
       email: ['', [Validators.required, Validators.email]],
-      password: ['', [Validators.required, Validators.minLength(6)]],
+      password: ['', passwordValidators],
       confirmPassword: ['', Validators.required]
-    }, { validators: this.passwordMatchValidator });
-  }
+    }, { validators: passwordMatchValidator });
 
-  passwordMatchValidator(form: FormGroup) {
-    const password = form.get('password');
-    const confirmPassword = form.get('confirmPassword');
-    
-    if (password?.value !== confirmPassword?.value) {
-      confirmPassword?.setErrors({ passwordMismatch: true });
-      return { passwordMismatch: true };
-    } else {
-      confirmPassword?.setErrors(null);
-      return null;
-    }
+    // The password must not contain the name/email, so re-check it when those change
+    ['email', 'firstName', 'lastName'].forEach(field => {
+      this.registerForm.get(field)?.valueChanges.subscribe(() => {
+        this.registerForm.get('password')?.updateValueAndValidity({ emitEvent: false });
+      });
+    });
   }
 
   onSubmit() {
     if (this.registerForm.valid) {
       this.isLoading = true;
       this.errorMessage = '';
-      this.successMessage = '';
 
       const registerData = {
         email: this.registerForm.value.email,
@@ -342,20 +375,20 @@ export class RegisterComponent {
       this.authService.register(registerData).subscribe({
         next: (response) => {
           this.isLoading = false;
-          this.successMessage = 'Registration successful! You can now login.';
-          setTimeout(() => {
-            this.goToLogin();
-          }, 2000);
+          // The account can only be used after the email link is clicked
+          this.registeredEmail = registerData.email;
         },
         error: (error) => {
           this.isLoading = false;
-          this.errorMessage = error.error?.message || 'Registration failed. Please try again.';
+          const apiError = parseApiError(error, 'Registration failed. Please try again.');
+          // Field problems show under their inputs - only the rest goes in the banner
+          this.errorMessage = applyApiErrorToForm(this.registerForm, apiError);
         }
       });
     }
   }
 
   goToLogin() {
-    this.router.navigate(['/login']);
+    this.router.navigate(['/login'], { queryParams: { returnUrl: this.returnUrl } });
   }
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { AuthService } from '../auth.service';
+import { parseApiError } from '../../utils/api-error';
+
+// Small "Resend verification email" button used on register, login and verify-email pages
+@Component({
+  selector: 'app-resend-verification',
+  standalone: true,
+  imports: [CommonModule, MatButtonModule, MatIconModule, MatProgressSpinnerModule],
+  template: `
+    <div class="resend-verification">
+      <button
+        type="button"
+        mat-stroked-button
+        color="primary"
+        [disabled]="!email || isLoading || sent"
+        (click)="resend()">
+        <mat-spinner *ngIf="isLoading" diameter="16" class="button-spinner"></mat-spinner>
+        <mat-icon *ngIf="!isLoading">{{ sent ? 'mark_email_read' : 'forward_to_inbox' }}</mat-icon>
+        {{ sent ? 'Verification email sent' : 'Resend verification email' }}
+      </button>
+      <span class="resend-error" *ngIf="errorMessage">{{ errorMessage }}</span>
+    </div>
+  `,
+  styles: [`
+    .resend-verification {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .button-spinner {
+      display: inline-block;
+      margin-right: 8px;
+    }
+
+    .resend-error {
+      color: #f44336;
+      font-size: 12px;
+    }
+  `]
+})
+export class ResendVerificationComponent {
+  @Input() email?: string;
+
+  isLoading: boolean = false;
+  sent: boolean = false;
+  errorMessage: string = '';
+
+  constructor(private authService: AuthService) { }
+
+  resend() {
+    if (!this.email) {
+      return;
+    }
+
+    this.isLoading = true;
+    this.errorMessage = '';
+
+    this.authService.resendVerificationEmail(this.email).subscribe({
+      next: () => {
+        this.isLoading = false;
+        this.sent = true;
+      },
+      error: (error) => {
+        this.isLoading = false;
+        this.errorMessage = parseApiError(error, 'Could not resend the email. Please try again later.').message;
+      }
+    });
+  }
+}
\ No newline at end of file
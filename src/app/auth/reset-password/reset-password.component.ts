@@ -0,0 +1,263 @@
+import { Component, Input, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { HttpErrorResponse } from '@angular/common/http';
+import { AuthService } from '../auth.service';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { passwordMatchValidator, passwordValidators } from '../password-validators';
+import { PasswordStrengthMeterComponent } from '../password-policy/password-strength-meter.component';
+import { parseApiError } from '../../utils/api-error';
+
+// 'form': waiting for the new password
+// 'invalid' / 'expired': the link can't be used anymore - user must request a new one
+// 'success': password was changed
+type ResetState = 'form' | 'invalid' | 'expired' | 'success';
+
+@Component({
+  selector: 'app-reset-password',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, MatCardModule, MatInputModule, MatButtonModule, MatIconModule, MatProgressSpinnerModule, PasswordStrengthMeterComponent],
+  template: `
+    <div class="reset-container">
+      <mat-card class="reset-card">
+        <mat-card-header>
+          <mat-card-title>
+            <mat-icon>lock_reset</mat-icon>
+            Reset Password
+          </mat-card-title>
+          <mat-card-subtitle>Choose a new password for your account.</mat-card-subtitle>
+        </mat-card-header>
+
+        <mat-card-content>
+          @switch (state) {
+            @case ('invalid') {
+              <div class="error-message">
+                <mat-icon>link_off</mat-icon>
+                This reset link is invalid. It may have been used already or copied incompletely.
+              </div>
+              <button mat-raised-button color="primary" class="reset-button" (click)="goToForgotPassword()">
+                Request a new link
+              </button>
+            }
+            @case ('expired') {
+              <div class="error-message">
+                <mat-icon>timer_off</mat-icon>
+                This reset link has expired. Please request a new one.
+              </div>
+              <button mat-raised-button color="primary" class="reset-button" (click)="goToForgotPassword()">
+                Request a new link
+              </button>
+            }
+            @case ('success') {
+              <div class="success-message">
+                <mat-icon>check_circle</mat-icon>
+                Your password has been changed. You can now log in with your new password.
+              </div>
+              <button mat-raised-button color="primary" class="reset-button" (click)="goToLogin()">
+                Go to login
+              </button>
+            }
+            @default {
+              <form [formGroup]="resetForm" (ngSubmit)="onSubmit()" class="reset-form">
+                <mat-form-field appearance="outline" class="full-width">
+                  <mat-label>New Password</mat-label>
+                  <input matInput type="password" formControlName="password" required>
+                  <mat-icon matSuffix>lock</mat-icon>
+                  <mat-error *ngIf="resetForm.get('password')?.hasError('required')">
+                    Password is required
+                  </mat-error>
+                  <mat-error *ngIf="resetForm.get('password')?.hasError('passwordPolicy')">
+                    Password doesn't meet the requirements below
+                  </mat-error>
+                </mat-form-field>
+
+                <app-password-strength-meter [password]="resetForm.get('password')?.value"></app-password-strength-meter>
+
+                <mat-form-field appearance="outline" class="full-width">
+                  <mat-label>Confirm New Password</mat-label>
+                  <input matInput type="password" formControlName="confirmPassword" required>
+                  <mat-icon matSuffix>lock</mat-icon>
+                  <mat-error *ngIf="resetForm.get('confirmPassword')?.hasError('required')">
+                    Please confirm your password
+                  </mat-error>
+                  <mat-error *ngIf="resetForm.get('confirmPassword')?.hasError('passwordMismatch')">
+                    Passwords do not match
+                  </mat-error>
+                </mat-form-field>
+
+                <div class="error-message" *ngIf="errorMessage">
+                  <mat-icon>error</mat-icon>
+                  {{ errorMessage }}
+                </div>
+
+                <button
+                  type="submit"
+                  mat-raised-button
+                  color="primary"
+                  class="reset-button"
+                  [disabled]="resetForm.invalid || isLoading">
+                  <mat-spinner *ngIf="isLoading" diameter="20" class="button-spinner"></mat-spinner>
+                  <mat-icon *ngIf="!isLoading">save</mat-icon>
+                  Set New Password
+                </button>
+              </form>
+            }
+          }
+        </mat-card-content>
+      </mat-card>
+    </div>
+  `,
+  styles: [`
+    .reset-container {
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: 100vh;
+      padding: 20px;
+    }
+
+    .reset-card {
+      width: 100%;
+      max-width: 450px;
+    }
+
+    .reset-form {
+      display: flex;
+      flex-direction: column;
+      gap: 20px;
+      margin-top: 20px;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .reset-button {
+      width: 100%;
+      height: 48px;
+      font-size: 16px;
+      margin-top: 20px;
+    }
+
+    .button-spinner {
+      margin-right: 8px;
+    }
+
+    .error-message, .success-message {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 12px;
+      border-radius: 4px;
+      font-size: 14px;
+    }
+
+    .error-message {
+      color: #f44336;
+      background-color: #ffebee;
+    }
+
+    .success-message {
+      color: #4caf50;
+      background-color: #e8f5e8;
+    }
+
+    mat-card-header {
+      margin-bottom: 16px;
+    }
+
+    mat-card-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-size: 24px;
+    }
+
+    /* Mobile responsive */
+    @media (max-width: 600px) {
+      .reset-container {
+        padding: 8px;
+        box-sizing: border-box;
+      }
+
+      .reset-card {
+        max-width: none;
+        width: calc(100vw - 16px);
+        padding: 24px;
+        box-sizing: border-box;
+      }
+
+      mat-card-title {
+        font-size: 22px;
+      }
+    }
+  `]
+})
+export class ResetPasswordComponent implements OnInit {
+  // Bound from the ?token= query param of the link in the reset email
+  @Input() token?: string;
+
+  resetForm: FormGroup;
+  state: ResetState = 'form';
+  errorMessage: string = '';
+  isLoading: boolean = false;
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService,
+    private router: Router
+  ) {
+    this.resetForm = this.fb.group({
+      password: ['', passwordValidators],
+      confirmPassword: ['', Validators.required]
+    }, { validators: passwordMatchValidator });
+  }
+
+  ngOnInit() {
+    // Without a token there is nothing to reset
+    if (!this.token) {
+      this.state = 'invalid';
+    }
+  }
+
+  onSubmit() {
+    if (this.resetForm.valid && this.token) {
+      this.isLoading = true;
+      this.errorMessage = '';
+
+      this.authService.resetPassword({
+        token: this.token,
+        newPassword: this.resetForm.value.password
+      }).subscribe({
+        next: () => {
+          this.isLoading = false;
+          this.state = 'success';
+        },
+        error: (error: HttpErrorResponse) => {
+          this.isLoading = false;
+          if (error.status === 410) {
+            this.state = 'expired';
+          } else if (error.status === 400 && !error.error?.errors) {
+            // Plain 400 means the token was rejected, validation errors keep the form open
+            this.state = 'invalid';
+          } else {
+            this.errorMessage = parseApiError(error, 'Could not reset your password. Please try again.').message;
+          }
+        }
+      });
+    }
+  }
+
+  goToForgotPassword() {
+    this.router.navigate(['/forgot-password']);
+  }
+
+  goToLogin() {
+    this.router.navigate(['/login']);
+  }
+}
\ No newline at end of file
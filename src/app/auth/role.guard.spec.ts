@@ -0,0 +1,64 @@
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRouteSnapshot, Router, RouterStateSnapshot } from '@angular/router';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+import { roleGuard } from './role.guard';
+import { AuthService, AuthStatus } from './auth.service';
+import { UserRole } from './roles';
+
+describe('roleGuard', () => {
+  let status: BehaviorSubject<AuthStatus>;
+  let userRoles: UserRole[];
+  let router: jasmine.SpyObj<Router>;
+
+  beforeEach(() => {
+    status = new BehaviorSubject<AuthStatus>('authenticated');
+    userRoles = [];
+    router = jasmine.createSpyObj<Router>('Router', ['navigate']);
+
+    TestBed.configureTestingModule({
+      providers: [
+        {
+          provide: AuthService,
+          useValue: {
+            authStatus$: status.asObservable(),
+            hasAnyRole: (roles: UserRole[]) => userRoles.some(role => roles.includes(role))
+          }
+        },
+        { provide: Router, useValue: router },
+        { provide: MatSnackBar, useValue: jasmine.createSpyObj<MatSnackBar>('MatSnackBar', ['open']) }
+      ]
+    });
+  });
+
+  function runGuard(roles: UserRole[]): Observable<boolean> {
+    const route = { data: { roles } } as unknown as ActivatedRouteSnapshot;
+    const state = { url: '/products/create' } as RouterStateSnapshot;
+    return TestBed.runInInjectionContext(() => roleGuard(route, state));
+  }
+
+  it('should allow users with a required role', () => {
+    userRoles = ['editor'];
+    let result: boolean | undefined;
+    runGuard(['admin', 'editor']).subscribe(value => result = value);
+
+    expect(result).toBeTrue();
+  });
+
+  it('should send users without a required role home', () => {
+    userRoles = ['viewer'];
+    let result: boolean | undefined;
+    runGuard(['admin', 'editor']).subscribe(value => result = value);
+
+    expect(result).toBeFalse();
+    expect(router.navigate).toHaveBeenCalledWith(['/']);
+  });
+
+  it('should send anonymous users to login', () => {
+    status.next('anonymous');
+    runGuard(['admin']).subscribe();
+
+    expect(router.navigate).toHaveBeenCalledWith(['/login'], { queryParams: { returnUrl: '/products/create' } });
+  });
+});
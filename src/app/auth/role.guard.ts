@@ -0,0 +1,34 @@
+import { inject } from '@angular/core';
+import { ActivatedRouteSnapshot, Router, RouterStateSnapshot } from '@angular/router';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { filter, map, take } from 'rxjs/operators';
+import { AuthService } from './auth.service';
+import { UserRole } from './roles';
+
+// Usage: { path: '...', canActivate: [roleGuard], data: { roles: ['admin', 'editor'] } }
+export const roleGuard = (route: ActivatedRouteSnapshot, state: RouterStateSnapshot) => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+  const snackBar = inject(MatSnackBar);
+  const requiredRoles = (route.data['roles'] as UserRole[] | undefined) ?? [];
+
+  // Wait until the session check has finished before deciding
+  return authService.authStatus$.pipe(
+    filter(status => status !== 'unknown'),
+    take(1),
+    map(status => {
+      if (status !== 'authenticated') {
+        router.navigate(['/login'], { queryParams: { returnUrl: state.url } });
+        return false;
+      }
+      if (authService.hasAnyRole(requiredRoles)) {
+        return true;
+      }
+      snackBar.open('You do not have permission to open that page', 'Close', {
+        duration: 3000
+      });
+      router.navigate(['/']);
+      return false;
+    })
+  );
+};
\ No newline at end of file
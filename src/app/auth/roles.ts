@@ -0,0 +1,16 @@
+/**
+ * Role definitions and permission helpers
+ * Roles come from the backend on login and /api/auth/me
+ */
+
+export type UserRole = 'admin' | 'editor' | 'viewer';
+
+// Who may create, edit and delete laptops
+export const PRODUCT_MANAGER_ROLES: UserRole[] = ['admin', 'editor'];
+
+export function hasAnyRole(user: { roles?: UserRole[] } | null | undefined, roles: UserRole[]): boolean {
+  if (!user?.roles || roles.length === 0) {
+    return roles.length === 0;
+  }
+  return user.roles.some(role => roles.includes(role));
+}
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { Component, Input, OnInit } from '@angular/core';
+import { FormControl, Validators, ReactiveFormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { HttpErrorResponse } from '@angular/common/http';
+import { AuthService } from '../auth.service';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { ResendVerificationComponent } from '../resend-verification/resend-verification.component';
+
+type VerifyState = 'verifying' | 'success' | 'invalid' | 'expired';
+
+@Component({
+  selector: 'app-verify-email',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, MatCardModule, MatInputModule, MatButtonModule, MatIconModule, MatProgressSpinnerModule, ResendVerificationComponent],
+  template: `
+    <div class="verify-container">
+      <mat-card class="verify-card">
+        <mat-card-header>
+          <mat-card-title>
+            <mat-icon>mark_email_read</mat-icon>
+            Verify Email
+          </mat-card-title>
+        </mat-card-header>
+
+        <mat-card-content>
+          @switch (state) {
+            @case ('verifying') {
+              <div class="verifying">
+                <mat-spinner diameter="40"></mat-spinner>
+                <p>Confirming your email address...</p>
+              </div>
+            }
+            @case ('success') {
+              <div class="success-message">
+                <mat-icon>check_circle</mat-icon>
+                Your email address is confirmed. You can now log in.
+              </div>
+              <button mat-raised-button color="primary" class="verify-button" (click)="goToLogin()">
+                Go to login
+              </button>
+            }
+            @default {
+              <div class="error-message">
+                <mat-icon>{{ state === 'expired' ? 'timer_off' : 'link_off' }}</mat-icon>
+                {{ state === 'expired'
+                  ? 'This verification link has expired.'
+                  : 'This verification link is invalid or has already been used.' }}
+                Enter your email to get a new one.
+              </div>
+              <mat-form-field appearance="outline" class="full-width">
+                <mat-label>Email</mat-label>
+                <input matInput type="email" [formControl]="emailControl">
+                <mat-icon matSuffix>email</mat-icon>
+              </mat-form-field>
+              <app-resend-verification [email]="emailControl.valid ? emailControl.value ?? undefined : undefined"></app-resend-verification>
+            }
+          }
+        </mat-card-content>
+      </mat-card>
+    </div>
+  `,
+  styles: [`
+    .verify-container {
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: 100vh;
+      padding: 20px;
+    }
+
+    .verify-card {
+      width: 100%;
+      max-width: 450px;
+    }
+
+    .verifying {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 16px;
+      padding: 24px 0;
+    }
+
+    .full-width {
+      width: 100%;
+      margin-top: 20px;
+    }
+
+    .verify-button {
+      width: 100%;
+      height: 48px;
+      font-size: 16px;
+      margin-top: 20px;
+    }
+
+    .error-message, .success-message {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 12px;
+      border-radius: 4px;
+      font-size: 14px;
+    }
+
+    .error-message {
+      color: #f44336;
+      background-color: #ffebee;
+    }
+
+    .success-message {
+      color: #4caf50;
+      background-color: #e8f5e8;
+    }
+
+    mat-card-header {
+      margin-bottom: 16px;
+    }
+
+    mat-card-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-size: 24px;
+    }
+
+    /* Mobile responsive */
+    @media (max-width: 600px) {
+      .verify-container {
+        padding: 8px;
+        box-sizing: border-box;
+      }
+
+      .verify-card {
+        max-width: none;
+        width: calc(100vw - 16px);
+        padding: 24px;
+        box-sizing: border-box;
+      }
+    }
+  `]
+})
+export class VerifyEmailComponent implements OnInit {
+  // Bound from the ?token= query param of the link in the verification email
+  @Input() token?: string;
+
+  state: VerifyState = 'verifying';
+  emailControl = new FormControl('', [Validators.required, Validators.email]);
+
+  constructor(
+    private authService: AuthService,
+    private router: Router
+  ) { }
+
+  ngOnInit() {
+    if (!this.token) {
+      this.state = 'invalid';
+      return;
+    }
+
+    this.authService.verifyEmail(this.token).subscribe({
+      next: () => {
+        this.state = 'success';
+      },
+      error: (error: HttpErrorResponse) => {
+        this.state = error.status === 410 ? 'expired' : 'invalid';
+      }
+    });
+  }
+
+  goToLogin() {
+    this.router.navigate(['/login']);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { AvatarComponent } from './avatar.component';
+import { getAvatarColor, getInitials } from '../utils/avatar-utils';
+
+describe('AvatarComponent', () => {
+  let fixture: ComponentFixture<AvatarComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [AvatarComponent]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(AvatarComponent);
+  });
+
+  it('should show initials without a picture', () => {
+    fixture.componentRef.setInput('user', { email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace' });
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('img')).toBeNull();
+    expect(fixture.nativeElement.textContent.trim()).toBe('AL');
+  });
+
+  it('should prefer the preview over the saved picture', () => {
+    fixture.componentRef.setInput('user', { email: 'ada@example.com', profilePicture: 'data:image/png;base64,saved' });
+    fixture.componentRef.setInput('src', 'data:image/png;base64,preview');
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('img').getAttribute('src')).toBe('data:image/png;base64,preview');
+  });
+});
+
+describe('avatar utils', () => {
+  it('should fall back to the email for initials', () => {
+    expect(getInitials({ email: 'zoe@example.com' })).toBe('Z');
+    expect(getInitials(null)).toBe('?');
+  });
+
+  it('should give the same email the same color', () => {
+    expect(getAvatarColor('Ada@Example.com')).toBe(getAvatarColor('ada@example.com'));
+    expect(getAvatarColor('ada@example.com')).not.toBe(getAvatarColor('bob@example.com'));
+  });
+});
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { AvatarUser, getAvatarColor, getInitials } from '../utils/avatar-utils';
+import { getApiAssetUrl } from '../utils/asset-url';
+
+// Round user picture - falls back to initials on a per-user color
+// when there is no picture or it fails to load
+@Component({
+  selector: 'app-avatar',
+  standalone: true,
+  template: `
+    @if (imageUrl && !imageFailed) {
+      <img [src]="imageUrl" [alt]="alt" (error)="imageFailed = true">
+    } @else {
+      <span class="initials" [style.background-color]="color" [style.font-size.px]="size * 0.4" [attr.aria-label]="alt" role="img">
+        {{ initials }}
+      </span>
+    }
+  `,
+  styles: [`
+    :host {
+      display: inline-flex;
+      flex-shrink: 0;
+      width: var(--avatar-size);
+      height: var(--avatar-size);
+      border-radius: 50%;
+      overflow: hidden;
+    }
+
+    img, .initials {
+      width: 100%;
+      height: 100%;
+    }
+
+    img {
+      object-fit: cover;
+    }
+
+    .initials {
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      color: #fff;
+      font-weight: 500;
+      line-height: 1;
+      user-select: none;
+    }
+  `],
+  host: {
+    '[style.--avatar-size.px]': 'size'
+  }
+})
+export class AvatarComponent implements OnChanges {
+  @Input() user: (AvatarUser & { profilePicture?: string }) | null | undefined;
+  // Shown instead of the user's picture, e.g. a preview before upload
+  @Input() src: string | null | undefined;
+  @Input() size = 40;
+
+  imageUrl: string | null = null;
+  imageFailed = false;
+  initials = '';
+  color = '';
+  alt = '';
+
+  ngOnChanges() {
+    const picture = this.src || this.user?.profilePicture;
+    this.imageUrl = picture ? getApiAssetUrl(picture) : null;
+    this.imageFailed = false;
+    this.initials = getInitials(this.user);
+    this.color = getAvatarColor(this.user?.email);
+    this.alt = [this.user?.firstName, this.user?.lastName].filter(Boolean).join(' ') || this.user?.email || 'User';
+  }
+}
\ No newline at end of file
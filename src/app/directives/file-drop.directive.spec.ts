@@ -0,0 +1,52 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { By } from '@angular/platform-browser';
+
+import { FileDropDirective } from './file-drop.directive';
+
+@Component({
+  standalone: true,
+  imports: [FileDropDirective],
+  template: `<div appFileDrop [appFileDropAccept]="['image/png']" (fileDropped)="dropped = $event"></div>`
+})
+class HostComponent {
+  dropped?: File;
+}
+
+describe('FileDropDirective', () => {
+  let fixture: ComponentFixture<HostComponent>;
+  let zone: HTMLElement;
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(HostComponent);
+    fixture.detectChanges();
+    zone = fixture.debugElement.query(By.directive(FileDropDirective)).nativeElement;
+  });
+
+  function dragEvent(type: string, file: File): DragEvent {
+    const dataTransfer = new DataTransfer();
+    dataTransfer.items.add(file);
+    return new DragEvent(type, { dataTransfer, cancelable: true });
+  }
+
+  it('should mark the zone while a valid file hovers and emit it on drop', () => {
+    const file = new File(['png'], 'avatar.png', { type: 'image/png' });
+
+    zone.dispatchEvent(dragEvent('dragenter', file));
+    fixture.detectChanges();
+    expect(zone.classList).toContain('file-drop-hover');
+    expect(zone.classList).not.toContain('file-drop-invalid');
+
+    zone.dispatchEvent(dragEvent('drop', file));
+    fixture.detectChanges();
+    expect(zone.classList).not.toContain('file-drop-hover');
+    expect(fixture.componentInstance.dropped).toBe(file);
+  });
+
+  it('should flag files of the wrong type', () => {
+    zone.dispatchEvent(dragEvent('dragenter', new File(['pdf'], 'cv.pdf', { type: 'application/pdf' })));
+    fixture.detectChanges();
+
+    expect(zone.classList).toContain('file-drop-invalid');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { Directive, EventEmitter, HostBinding, HostListener, Input, Output } from '@angular/core';
+
+// Turns an element into a drop zone for files, and optionally accepts images pasted anywhere on the page
+// Only picks the file - size/type rules stay in the component so drop, paste and <input type="file"> share them
+//   <div appFileDrop [appFileDropAccept]="['image/png']" (fileDropped)="onFile($event)">
+// Style the states with the .file-drop-hover and .file-drop-invalid classes
+@Directive({
+  selector: '[appFileDrop]',
+  standalone: true
+})
+export class FileDropDirective {
+  // MIME types that count as valid while dragging - empty means anything
+  @Input() appFileDropAccept: string[] = [];
+  // Also take files from Ctrl+V / Cmd+V anywhere on the page
+  // Off by default - with several drop zones on a page only one of them may listen
+  @Input() appFileDropPaste = false;
+  @Input() appFileDropDisabled = false;
+
+  @Output() fileDropped = new EventEmitter<File>();
+
+  @HostBinding('class.file-drop-hover') isHovering = false;
+  @HostBinding('class.file-drop-invalid') isInvalid = false;
+
+  // dragenter/dragleave also fire for child elements - count them to know when we really left
+  private dragDepth = 0;
+
+  @HostListener('dragenter', ['$event'])
+  onDragEnter(event: DragEvent): void {
+    if (!this.hasFiles(event)) {
+      return;
+    }
+    event.preventDefault();
+    this.dragDepth++;
+    this.isHovering = true;
+    this.isInvalid = !this.isAccepted(event);
+  }
+
+  @HostListener('dragover', ['$event'])
+  onDragOver(event: DragEvent): void {
+    if (!this.hasFiles(event)) {
+      return;
+    }
+    // Required, otherwise the browser doesn't allow the drop
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = this.appFileDropDisabled || this.isInvalid ? 'none' : 'copy';
+    }
+  }
+
+  @HostListener('dragleave')
+  onDragLeave(): void {
+    this.dragDepth = Math.max(0, this.dragDepth - 1);
+    if (this.dragDepth === 0) {
+      this.resetState();
+    }
+  }
+
+  @HostListener('drop', ['$event'])
+  onDrop(event: DragEvent): void {
+    if (!this.hasFiles(event)) {
+      return;
+    }
+    // Stop the browser from opening the file itself
+    event.preventDefault();
+    this.resetState();
+
+    const file = event.dataTransfer?.files[0];
+    if (file && !this.appFileDropDisabled) {
+      this.fileDropped.emit(file);
+    }
+  }
+
+  @HostListener('document:paste', ['$event'])
+  onPaste(event: ClipboardEvent): void {
+    if (!this.appFileDropPaste || this.appFileDropDisabled) {
+      return;
+    }
+    // Plain text pastes (e.g. into the name fields) are left alone
+    const file = Array.from(event.clipboardData?.files || [])[0];
+    if (file) {
+      event.preventDefault();
+      this.fileDropped.emit(file);
+    }
+  }
+
+  private hasFiles(event: DragEvent): boolean {
+    return !!event.dataTransfer?.types.includes('Files');
+  }
+
+  // Browsers only expose the MIME type while dragging, not the file itself
+  private isAccepted(event: DragEvent): boolean {
+    if (this.appFileDropDisabled) {
+      return false;
+    }
+    const items = Array.from(event.dataTransfer?.items || []).filter(item => item.kind === 'file');
+    if (items.length !== 1) {
+      return items.length === 0;
+    }
+    const type = items[0].type;
+    return !type || this.appFileDropAccept.length === 0 || this.appFileDropAccept.includes(type);
+  }
+
+  private resetState(): void {
+    this.dragDepth = 0;
+    this.isHovering = false;
+    this.isInvalid = false;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { InjectionToken } from '@angular/core';
+import { environment } from '../../environments/environment';
+
+export interface FakeBackendConfig {
+  enabled: boolean;
+  latencyMs: number;       // Delay before every response, 0 = answer synchronously
+  errorRate: number;       // 0..1 - share of requests that fail with a 500
+  persist?: boolean;       // Keep data in localStorage between reloads (default true)
+}
+
+// Tests override this with provideFakeBackend({ ... })
+export const FAKE_BACKEND_CONFIG = new InjectionToken<FakeBackendConfig>('FAKE_BACKEND_CONFIG', {
+  providedIn: 'root',
+  factory: () => environment.fakeBackend
+});
\ No newline at end of file
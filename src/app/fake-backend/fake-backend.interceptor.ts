@@ -0,0 +1,14 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { FakeBackend } from './fake-backend.service';
+import { getApiPath } from '../utils/api-url';
+
+// Must be the last interceptor - it answers API requests itself instead of passing them on
+// Requests to other hosts (e.g. identity providers) still go to the network
+export const fakeBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  const path = getApiPath(req.url);
+  if (path === null) {
+    return next(req);
+  }
+  return inject(FakeBackend).handle(req, path);
+};
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+
+import { provideFakeBackend } from './provide-fake-backend';
+import { FakeBackend } from './fake-backend.service';
+import { FakeDb } from './fake-db';
+import { environment } from '../../environments/environment';
+
+describe('FakeBackend', () => {
+  let http: HttpClient;
+  let backend: FakeBackend;
+  const api = environment.apiURL;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideFakeBackend()] });
+    http = TestBed.inject(HttpClient);
+    backend = TestBed.inject(FakeBackend);
+  });
+
+  function login(email = 'admin@example.com', password = 'Admin123!') {
+    let response: any;
+    http.post(`${api}/api/auth/login`, { email, password }).subscribe(value => response = value);
+    return response;
+  }
+
+  it('should log in a seeded user and remember the session', () => {
+    expect(login().roles).toEqual(['admin']);
+
+    let me: any;
+    http.get(`${api}/api/auth/me`).subscribe(value => me = value);
+    expect(me.email).toBe('admin@example.com');
+  });
+
+  it('should reject requests without a session', () => {
+    let error: HttpErrorResponse | undefined;
+    http.get(`${api}/api/laptops`).subscribe({ error: e => error = e });
+    expect(error?.status).toBe(401);
+  });
+
+  it('should create laptops for product managers only', () => {
+    login('viewer@example.com', 'Viewer123!');
+    let error: HttpErrorResponse | undefined;
+    http.post(`${api}/api/laptops`, { name: 'Framework 13' }).subscribe({ error: e => error = e });
+    expect(error?.status).toBe(403);
+
+    login();
+    http.post(`${api}/api/laptops`, { name: 'Framework 13' }).subscribe();
+    expect(TestBed.inject(FakeDb).state.laptops.map(laptop => laptop.name)).toContain('Framework 13');
+  });
+
+  it('should keep the old email until the change is confirmed', () => {
+    spyOn(console, 'info');
+    login();
+    const profile = { email: 'ada@example.com', firstName: 'Ada', lastName: 'Admin' };
+    let response: any;
+    http.put(`${api}/api/auth/profile`, profile).subscribe(value => response = value);
+    expect(response.user.email).toBe('admin@example.com');
+    expect(response.user.pendingEmail).toBe('ada@example.com');
+
+    const db = TestBed.inject(FakeDb);
+    const token = db.state.tokens.find(t => t.type === 'confirm-email-change')!.token;
+    http.post(`${api}/api/auth/confirm-email-change`, { token }).subscribe();
+    expect(db.currentUser()?.email).toBe('ada@example.com');
+    expect(db.currentUser()?.pendingEmail).toBeUndefined();
+  });
+
+  it('should fail queued requests with the given status and headers', () => {
+    backend.failNext('POST', '/api/auth/login', 429, { 'Retry-After': '30' });
+    let error: HttpErrorResponse | undefined;
+    http.post(`${api}/api/auth/login`, {}).subscribe({ error: e => error = e });
+
+    expect(error?.status).toBe(429);
+    expect(error?.headers.get('Retry-After')).toBe('30');
+  });
+
+  it('should reject malformed external identity tokens with 400', () => {
+    let error: HttpErrorResponse | undefined;
+    http.post(`${api}/api/auth/external-login`, { idToken: 'not-a-jwt' }).subscribe({ error: e => error = e });
+    expect(error?.status).toBe(400);
+  });
+
+  it('should turn exceptions in handlers into 500 responses', () => {
+    spyOn(console, 'error');
+    // Every /api/auth/me request reads the current user first
+    spyOn(TestBed.inject(FakeDb), 'currentUser').and.throwError('Handler bug');
+    let error: HttpErrorResponse | undefined;
+    http.get(`${api}/api/auth/me`).subscribe({ error: e => error = e });
+
+    expect(error).toBeInstanceOf(HttpErrorResponse);
+    expect(error?.status).toBe(500);
+  });
+
+  it('should answer unknown API paths with 404', () => {
+    let error: HttpErrorResponse | undefined;
+    http.get(`${api}/api/nothing-here`).subscribe({ error: e => error = e });
+    expect(error?.status).toBe(404);
+  });
+});
\ No newline at end of file
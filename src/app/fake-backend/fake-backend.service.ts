@@ -0,0 +1,106 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpErrorResponse, HttpEvent, HttpHeaders, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Observable, isObservable, of, throwError } from 'rxjs';
+import { catchError, delay, mergeMap } from 'rxjs/operators';
+import { FAKE_BACKEND_CONFIG } from './fake-backend.config';
+import { FakeDb } from './fake-db';
+import { FakeResponse, FakeRoute, fail } from './fake-http';
+import { authRoutes } from './handlers/auth.handlers';
+import { laptopRoutes } from './handlers/laptops.handlers';
+import { weatherRoutes } from './handlers/weather.handlers';
+
+interface CompiledRoute extends FakeRoute {
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+// Answers API requests from FakeDb instead of the .NET backend
+// Used by fakeBackendInterceptor - see environment.fakeBackend
+@Injectable({
+  providedIn: 'root'
+})
+export class FakeBackend {
+  private config = inject(FAKE_BACKEND_CONFIG);
+  readonly db = inject(FakeDb);
+
+  private routes: CompiledRoute[] = [
+    ...authRoutes(this.db),
+    ...laptopRoutes(this.db),
+    ...weatherRoutes()
+  ].map(route => this.compile(route));
+
+  // Forced failures for the next matching requests, used by tests
+  private queuedFailures: { method: string; path: string; response: FakeResponse }[] = [];
+
+  // Make the next `method path` request fail, e.g. failNext('POST', '/api/auth/login', 429, { 'Retry-After': '30' })
+  failNext(method: string, path: string, status: number, headers?: Record<string, string>, message = 'Fake backend error'): void {
+    this.queuedFailures.push({ method, path, response: { ...fail(status, message), headers } });
+  }
+
+  handle(req: HttpRequest<any>, path: string): Observable<HttpEvent<any>> {
+    return this.respond(req, path).pipe(
+      mergeMap(response => this.toHttpEvent(req, response)),
+      // latencyMs: 0 keeps everything synchronous, which makes tests simpler
+      this.config.latencyMs > 0 ? delay(this.config.latencyMs) : source => source
+    );
+  }
+
+  private respond(req: HttpRequest<any>, path: string): Observable<FakeResponse> {
+    const queued = this.queuedFailures.findIndex(failure => failure.method === req.method && failure.path === path);
+    if (queued !== -1) {
+      return of(this.queuedFailures.splice(queued, 1)[0].response);
+    }
+
+    if (this.config.errorRate > 0 && Math.random() < this.config.errorRate) {
+      return of(fail(500, 'Injected fake backend error'));
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === req.method ? route.pattern.exec(path) : null;
+      if (match) {
+        const params: Record<string, string> = {};
+        route.paramNames.forEach((name, i) => params[name] = decodeURIComponent(match[i + 1]));
+        // A bug in a handler should reach the app as a 500, like an unhandled exception on the real API
+        try {
+          const result = route.handler({ method: req.method, path, params, body: req.body, headers: req.headers });
+          return isObservable(result) ? result.pipe(catchError(error => of(this.handlerFailed(error)))) : of(result);
+        } catch (error) {
+          return of(this.handlerFailed(error));
+        }
+      }
+    }
+    return of(fail(404, `Fake backend has no route for ${req.method} ${path}`));
+  }
+
+  private handlerFailed(error: unknown): FakeResponse {
+    console.error('[fake backend] Handler failed:', error);
+    return fail(500, 'Fake backend handler failed');
+  }
+
+  private toHttpEvent(req: HttpRequest<any>, response: FakeResponse): Observable<HttpEvent<any>> {
+    const headers = new HttpHeaders(response.headers || {});
+    if (response.status >= 400) {
+      return throwError(() => new HttpErrorResponse({
+        status: response.status,
+        error: response.body,
+        headers,
+        url: req.urlWithParams
+      }));
+    }
+    return of(new HttpResponse({
+      status: response.status,
+      body: response.body ?? null,
+      headers,
+      url: req.urlWithParams
+    }));
+  }
+
+  private compile(route: FakeRoute): CompiledRoute {
+    const paramNames: string[] = [];
+    const source = route.path.replace(/:(\w+)/g, (_, name) => {
+      paramNames.push(name);
+      return '([^/]+)';
+    });
+    return { ...route, pattern: new RegExp(`^${source}$`), paramNames };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { Injectable, inject } from '@angular/core';
+import { FAKE_BACKEND_CONFIG } from './fake-backend.config';
+import { UserRole } from '../auth/roles';
+import { Laptop } from '../products/products.models';
+import { UserSession } from '../services/user.service';
+
+// A user as the fake backend stores it - never sent to the app as-is
+export interface FakeUserRecord {
+  id: string;
+  email: string;
+  password: string;        // Plain text - this data only ever lives in the developer's browser
+  firstName?: string;
+  lastName?: string;
+  profilePicture?: string; // data: URL of the uploaded file
+  phoneNumber?: string;
+  bio?: string;
+  locale?: string;
+  timeZone?: string;
+  pendingEmail?: string;   // Becomes email once the confirm-email-change link is used
+  roles: UserRole[];
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  recoveryCodes: string[];
+  failedLogins: number;
+  lockedUntil?: string;    // ISO date
+}
+
+export type FakeTokenType = 'verify-email' | 'reset-password' | 'confirm-email-change';
+
+// One-time links from the "emails" the fake backend logs to the console
+export interface FakeToken {
+  token: string;
+  type: FakeTokenType;
+  userId: string;
+  expiresAt: string;       // ISO date
+}
+
+export interface FakeDbState {
+  users: FakeUserRecord[];
+  laptops: Laptop[];
+  nextLaptopId: number;
+  tokens: FakeToken[];
+  sessions: UserSession[];
+  currentUserId: string | null;       // Stands in for the session cookie
+  pendingTwoFactorUserId: string | null;
+}
+
+const STORAGE_KEY = 'fake-backend-db';
+
+// Demo accounts - all passwords pass the development password policy
+function seed(): FakeDbState {
+  return {
+    users: [
+      createUser('admin@example.com', 'Admin123!', 'Ada', 'Admin', ['admin']),
+      createUser('editor@example.com', 'Editor123!', 'Eddie', 'Editor', ['editor']),
+      createUser('viewer@example.com', 'Viewer123!', 'Vera', 'Viewer', ['viewer'])
+    ],
+    laptops: [
+      { id: 1, name: 'Dell XPS 13' },
+      { id: 2, name: 'Lenovo ThinkPad X1 Carbon' },
+      { id: 3, name: 'Apple MacBook Air' }
+    ],
+    nextLaptopId: 4,
+    tokens: [],
+    sessions: [],
+    currentUserId: null,
+    pendingTwoFactorUserId: null
+  };
+}
+
+export function createUser(email: string, password: string, firstName?: string, lastName?: string, roles: UserRole[] = ['viewer']): FakeUserRecord {
+  return {
+    id: randomId(),
+    email,
+    password,
+    firstName,
+    lastName,
+    roles,
+    emailVerified: true,
+    twoFactorEnabled: false,
+    recoveryCodes: [],
+    failedLogins: 0
+  };
+}
+
+export function randomId(): string {
+  return Math.random().toString(36).substring(2, 10) + Date.now().toString(36);
+}
+
+// In-memory database behind the fake backend, mirrored to localStorage
+@Injectable({
+  providedIn: 'root'
+})
+export class FakeDb {
+  private persist = inject(FAKE_BACKEND_CONFIG).persist !== false;
+  state: FakeDbState = this.load();
+
+  // Handlers change `state` directly and call save() afterwards
+  save(): void {
+    if (!this.persist) {
+      return;
+    }
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    } catch (error) {
+      // Usually the quota - large profile pictures fill up localStorage quickly
+      console.warn('[fake backend] Could not save data to localStorage', error);
+    }
+  }
+
+  // Back to the demo data, e.g. between tests or from the browser console
+  reset(): void {
+    this.state = seed();
+    this.save();
+  }
+
+  currentUser(): FakeUserRecord | undefined {
+    return this.state.users.find(user => user.id === this.state.currentUserId);
+  }
+
+  findUserByEmail(email: string): FakeUserRecord | undefined {
+    return this.state.users.find(user => user.email.toLowerCase() === email?.toLowerCase());
+  }
+
+  private load(): FakeDbState {
+    if (this.persist) {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        try {
+          return JSON.parse(stored);
+        } catch {
+          // Broken data - start over with the seed below
+        }
+      }
+    }
+    return seed();
+  }
+}
\ No newline at end of file
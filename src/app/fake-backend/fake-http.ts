@@ -0,0 +1,42 @@
+import { HttpHeaders } from '@angular/common/http';
+import { Observable } from 'rxjs';
+
+// A request as the fake route handlers see it - path is relative to environment.apiURL
+export interface FakeRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;  // :placeholders from the route path
+  body: any;
+  headers: HttpHeaders;
+}
+
+export interface FakeResponse {
+  status: number;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+export type FakeHandler = (req: FakeRequest) => FakeResponse | Observable<FakeResponse>;
+
+export interface FakeRoute {
+  method: string;
+  path: string;            // e.g. '/api/laptops/:id'
+  handler: FakeHandler;
+}
+
+export function ok(body: any = null): FakeResponse {
+  return { status: 200, body };
+}
+
+export function created(body: any = null): FakeResponse {
+  return { status: 201, body };
+}
+
+export function fail(status: number, message: string, code?: string): FakeResponse {
+  return { status, body: code ? { message, code } : { message } };
+}
+
+// 400 in ASP.NET's ValidationProblemDetails shape, e.g. { Name: ['Name is required'] }
+export function validationProblem(errors: Record<string, string[]>): FakeResponse {
+  return { status: 400, body: { title: 'One or more validation errors occurred.', status: 400, errors } };
+}
\ No newline at end of file
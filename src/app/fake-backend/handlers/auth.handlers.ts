@@ -0,0 +1,405 @@
+import { Observable, from, map } from 'rxjs';
+import { FakeDb, FakeTokenType, FakeUserRecord, createUser, randomId } from '../fake-db';
+import { FakeHandler, FakeRequest, FakeResponse, FakeRoute, fail, ok, validationProblem } from '../fake-http';
+import { EMAIL_NOT_VERIFIED_CODE, LoginResponse } from '../../auth/auth.service';
+import { ACCOUNT_LOCKED_CODE } from '../../auth/login-error';
+import { INVALID_CURRENT_PASSWORD_CODE } from '../../services/user.service';
+import { decodeJwtPayload } from '../../auth/identity-providers/pkce';
+
+// Every authenticator code is accepted as long as it is this one
+export const FAKE_TWO_FACTOR_CODE = '123456';
+
+const MAX_FAILED_LOGINS = 5;
+const LOCK_MINUTES = 15;
+const TOKEN_HOURS = 24;
+
+function toLoginResponse(user: FakeUserRecord): LoginResponse {
+  return {
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    profilePicture: user.profilePicture,
+    roles: user.roles,
+    twoFactorEnabled: user.twoFactorEnabled,
+    phoneNumber: user.phoneNumber,
+    bio: user.bio,
+    locale: user.locale,
+    timeZone: user.timeZone,
+    pendingEmail: user.pendingEmail
+  };
+}
+
+function readFileAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function authRoutes(db: FakeDb): FakeRoute[] {
+  // Runs the handler only with a signed-in user, like [Authorize] on the real API
+  const authorized = (handler: (req: FakeRequest, user: FakeUserRecord) => FakeResponse | Observable<FakeResponse>): FakeHandler =>
+    req => {
+      const user = db.currentUser();
+      return user ? handler(req, user) : fail(401, 'Not authenticated');
+    };
+
+  function startSession(user: FakeUserRecord): FakeResponse {
+    db.state.currentUserId = user.id;
+    db.state.pendingTwoFactorUserId = null;
+    db.state.sessions = [{
+      id: randomId(),
+      device: 'This browser',
+      browser: navigator.userAgent.split(' ').pop() || 'Browser',
+      location: 'Fake backend',
+      lastSeenAt: new Date().toISOString(),
+      isCurrent: true
+    }, {
+      id: randomId(),
+      device: 'iPhone',
+      browser: 'Safari 17',
+      location: 'Somewhere else',
+      lastSeenAt: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString(),
+      isCurrent: false
+    }];
+    db.save();
+    return ok(toLoginResponse(user));
+  }
+
+  // Stands in for the email the real backend would send
+  function sendLink(user: FakeUserRecord, type: FakeTokenType, to = user.email): void {
+    const token = randomId();
+    db.state.tokens.push({
+      token,
+      type,
+      userId: user.id,
+      expiresAt: new Date(Date.now() + TOKEN_HOURS * 60 * 60 * 1000).toISOString()
+    });
+    db.save();
+    console.info(`[fake backend] Email to ${to}: ${location.origin}/${type}?token=${token}`);
+  }
+
+  // Only the newest email-change link is valid
+  function dropEmailChangeTokens(user: FakeUserRecord): void {
+    db.state.tokens = db.state.tokens.filter(t => !(t.type === 'confirm-email-change' && t.userId === user.id));
+  }
+
+  function useToken(token: string, type: FakeTokenType): FakeUserRecord | FakeResponse {
+    const stored = db.state.tokens.find(t => t.token === token && t.type === type);
+    if (!stored) {
+      return fail(400, 'This link is invalid or has already been used.');
+    }
+    db.state.tokens = db.state.tokens.filter(t => t !== stored);
+    db.save();
+    if (new Date(stored.expiresAt).getTime() < Date.now()) {
+      return fail(410, 'This link has expired.');
+    }
+    return db.state.users.find(user => user.id === stored.userId) || fail(400, 'This link is invalid or has already been used.');
+  }
+
+  function uploadPicture(req: FakeRequest, user: FakeUserRecord): FakeResponse | Observable<FakeResponse> {
+    const file = (req.body as FormData)?.get?.('file');
+    if (!(file instanceof Blob)) {
+      return fail(400, 'No file uploaded.');
+    }
+    return from(readFileAsDataUrl(file)).pipe(map(dataUrl => {
+      user.profilePicture = dataUrl;
+      db.save();
+      return ok({ message: 'Profile picture updated', profilePicture: dataUrl });
+    }));
+  }
+
+  return [
+    {
+      method: 'POST', path: '/api/auth/register', handler: ({ body }) => {
+        if (db.findUserByEmail(body.email)) {
+          return fail(409, 'An account with this email already exists.');
+        }
+        const user = createUser(body.email, body.password, body.firstName, body.lastName);
+        user.emailVerified = false;
+        db.state.users.push(user);
+        sendLink(user, 'verify-email');
+        return ok({ message: 'Registration successful. Please check your email.' });
+      }
+    },
+    {
+      method: 'POST', path: '/api/auth/login', handler: ({ body }) => {
+        const user = db.findUserByEmail(body.email);
+        if (user?.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now()) {
+          return {
+            status: 423,
+            body: { message: 'Your account is locked after too many failed login attempts.', code: ACCOUNT_LOCKED_CODE, lockedUntil: user.lockedUntil }
+          };
+        }
+        if (!user || user.password !== body.password) {
+          if (user) {
+            user.failedLogins++;
+            if (user.failedLogins >= MAX_FAILED_LOGINS) {
+              user.failedLogins = 0;
+              user.lockedUntil = new Date(Date.now() + LOCK_MINUTES * 60 * 1000).toISOString();
+            }
+            db.save();
+          }
+          return fail(401, 'Invalid email or password.');
+        }
+        if (!user.emailVerified) {
+          return fail(403, 'Please confirm your email address before logging in.', EMAIL_NOT_VERIFIED_CODE);
+        }
+        user.failedLogins = 0;
+        user.lockedUntil = undefined;
+        if (user.twoFactorEnabled) {
+          db.state.pendingTwoFactorUserId = user.id;
+          db.save();
+          return ok({ requiresTwoFactor: true });
+        }
+        return startSession(user);
+      }
+    },
+    {
+      method: 'POST', path: '/api/auth/login/2fa', handler: ({ body }) => {
+        const user = db.state.users.find(u => u.id === db.state.pendingTwoFactorUserId);
+        if (!user) {
+          return fail(401, 'Please log in again.');
+        }
+        if (body.recoveryCode && user.recoveryCodes.includes(body.recoveryCode)) {
+          user.recoveryCodes = user.recoveryCodes.filter(code => code !== body.recoveryCode);
+          return startSession(user);
+        }
+        if (body.code === FAKE_TWO_FACTOR_CODE) {
+          return startSession(user);
+        }
+        return fail(400, 'Invalid code. Please try again.');
+      }
+    },
+    {
+      method: 'POST', path: '/api/auth/external-login', handler: ({ body }) => {
+        // The real backend verifies the signature - here any token with an email claim will do
+        let claims: Record<string, unknown>;
+        try {
+          claims = decodeJwtPayload(body.idToken || '');
+        } catch {
+          return fail(400, 'The identity token is invalid.');
+        }
+        const email = typeof claims['email'] === 'string' ? claims['email'] : '';
+        if (!email) {
+          return fail(400, 'The identity provider did not send an email address.');
+        }
+        let user = db.findUserByEmail(email);
+        if (!user) {
+          user = createUser(email, randomId(), claims['given_name'] as string, claims['family_name'] as string);
+          db.state.users.push(user);
+        }
+        return startSession(user);
+      }
+    },
+    {
+      method: 'POST', path: '/api/auth/logout', handler: () => {
+        db.state.currentUserId = null;
+        db.state.sessions = [];
+        db.save();
+        return ok({ message: 'Logged out' });
+      }
+    },
+    { method: 'GET', path: '/api/auth/me', handler: authorized((_, user) => ok(toLoginResponse(user))) },
+    {
+      method: 'POST', path: '/api/auth/forgot-password', handler: ({ body }) => {
+        const user = db.findUserByEmail(body.email);
+        if (user) {
+          sendLink(user, 'reset-password');
+        }
+        return ok({ message: 'If an account exists for this email, a reset link is on its way.' });
+      }
+    },
+    {
+      method: 'POST', path: '/api/auth/reset-password', handler: ({ body }) => {
+        const result = useToken(body.token, 'reset-password');
+        if ('status' in result) {
+          return result;
+        }
+        result.password = body.newPassword;
+        result.lockedUntil = undefined;
+        db.save();
+        return ok({ message: 'Your password has been reset.' });
+      }
+    },
+    {
+      method: 'POST', path: '/api/auth/verify-email', handler: ({ body }) => {
+        const result = useToken(body.token, 'verify-email');
+        if ('status' in result) {
+          return result;
+        }
+        result.emailVerified = true;
+        db.save();
+        return ok({ message: 'Your email address has been confirmed.' });
+      }
+    },
+    {
+      method: 'POST', path: '/api/auth/resend-verification', handler: ({ body }) => {
+        const user = db.findUserByEmail(body.email);
+        if (user && !user.emailVerified) {
+          sendLink(user, 'verify-email');
+        }
+        return ok({ message: 'If the account needs confirming, a new email is on its way.' });
+      }
+    },
+    {
+      method: 'PUT', path: '/api/auth/profile', handler: authorized(({ body }, user) => {
+        const other = db.findUserByEmail(body.email);
+        if (other && other !== user) {
+          return fail(409, 'An account with this email already exists.');
+        }
+        if (body.phoneNumber && !/^\+[1-9]\d{7,14}$/.test(body.phoneNumber)) {
+          return validationProblem({ PhoneNumber: ['Phone number must be in E.164 format.'] });
+        }
+        if (body.bio && body.bio.length > 280) {
+          return validationProblem({ Bio: ['Bio cannot be longer than 280 characters.'] });
+        }
+        // A new address only replaces the old one once its link is clicked
+        const emailChanged = body.email.toLowerCase() !== user.email.toLowerCase();
+        if (emailChanged) {
+          user.pendingEmail = body.email;
+          dropEmailChangeTokens(user);
+          sendLink(user, 'confirm-email-change', body.email);
+        }
+        Object.assign(user, {
+          firstName: body.firstName,
+          lastName: body.lastName,
+          phoneNumber: body.phoneNumber || undefined,
+          bio: body.bio || undefined,
+          locale: body.locale || undefined,
+          timeZone: body.timeZone || undefined
+        });
+        db.save();
+        const message = emailChanged
+          ? `Profile updated. Check ${body.email} to confirm your new email address.`
+          : 'Profile updated successfully';
+        return ok({ message, user: toLoginResponse(user) });
+      })
+    },
+    {
+      method: 'POST', path: '/api/auth/email-change/resend', handler: authorized((_, user) => {
+        if (!user.pendingEmail) {
+          return fail(400, 'There is no email change to confirm.');
+        }
+        dropEmailChangeTokens(user);
+        sendLink(user, 'confirm-email-change', user.pendingEmail);
+        return ok({ message: `A new confirmation link is on its way to ${user.pendingEmail}.` });
+      })
+    },
+    {
+      method: 'DELETE', path: '/api/auth/email-change', handler: authorized((_, user) => {
+        user.pendingEmail = undefined;
+        dropEmailChangeTokens(user);
+        db.save();
+        return ok({ message: 'Email change cancelled' });
+      })
+    },
+    {
+      method: 'POST', path: '/api/auth/confirm-email-change', handler: ({ body }) => {
+        const result = useToken(body.token, 'confirm-email-change');
+        if ('status' in result) {
+          return result;
+        }
+        if (!result.pendingEmail) {
+          return fail(400, 'This link is invalid or has already been used.');
+        }
+        const other = db.findUserByEmail(result.pendingEmail);
+        if (other && other !== result) {
+          return fail(409, 'An account with this email already exists.');
+        }
+        result.email = result.pendingEmail;
+        result.pendingEmail = undefined;
+        db.save();
+        return ok({ message: 'Your new email address is confirmed.', email: result.email });
+      }
+    },
+    { method: 'POST', path: '/api/auth/upload-profile-picture', handler: authorized(uploadPicture) },
+    {
+      method: 'DELETE', path: '/api/auth/profile-picture', handler: authorized((_, user) => {
+        user.profilePicture = undefined;
+        db.save();
+        return ok({ message: 'Profile picture removed' });
+      })
+    },
+    {
+      method: 'PUT', path: '/api/auth/change-password', handler: authorized(({ body }, user) => {
+        if (body.currentPassword !== user.password) {
+          return fail(400, 'Your current password is incorrect.', INVALID_CURRENT_PASSWORD_CODE);
+        }
+        user.password = body.newPassword;
+        if (body.signOutOtherSessions) {
+          db.state.sessions = db.state.sessions.filter(session => session.isCurrent);
+        }
+        db.save();
+        return ok({ message: 'Password changed successfully' });
+      })
+    },
+    { method: 'GET', path: '/api/auth/sessions', handler: authorized(() => ok(db.state.sessions)) },
+    {
+      method: 'DELETE', path: '/api/auth/sessions/:id', handler: authorized(({ params }) => {
+        db.state.sessions = db.state.sessions.filter(session => session.id !== params['id']);
+        db.save();
+        return ok({ message: 'Session revoked' });
+      })
+    },
+    {
+      method: 'POST', path: '/api/auth/sessions/revoke-others', handler: authorized(() => {
+        db.state.sessions = db.state.sessions.filter(session => session.isCurrent);
+        db.save();
+        return ok({ message: 'Other sessions revoked' });
+      })
+    },
+    {
+      method: 'GET', path: '/api/auth/export', handler: authorized((_, user) => {
+        const { password, recoveryCodes, ...data } = user;
+        const json = JSON.stringify({ user: data, sessions: db.state.sessions }, null, 2);
+        return ok(new Blob([json], { type: 'application/json' }));
+      })
+    },
+    {
+      method: 'DELETE', path: '/api/auth/account', handler: authorized(({ body }, user) => {
+        if (body?.password !== user.password) {
+          return fail(400, 'Your password is incorrect.', INVALID_CURRENT_PASSWORD_CODE);
+        }
+        db.state.users = db.state.users.filter(u => u !== user);
+        db.state.currentUserId = null;
+        db.state.sessions = [];
+        db.save();
+        return ok({ message: 'Your account has been deleted.' });
+      })
+    },
+    {
+      method: 'POST', path: '/api/auth/2fa/setup', handler: authorized((_, user) => {
+        const secret = 'JBSWY3DPEHPK3PXP';
+        return ok({
+          secret,
+          otpauthUri: `otpauth://totp/LaptopApp:${encodeURIComponent(user.email)}?secret=${secret}&issuer=LaptopApp`
+        });
+      })
+    },
+    {
+      method: 'POST', path: '/api/auth/2fa/confirm', handler: authorized(({ body }, user) => {
+        if (body.code !== FAKE_TWO_FACTOR_CODE) {
+          return fail(400, 'Invalid code. Please try again.');
+        }
+        user.twoFactorEnabled = true;
+        user.recoveryCodes = Array.from({ length: 8 }, () => randomId().substring(0, 10));
+        db.save();
+        return ok({ message: 'Two-factor authentication is on', recoveryCodes: user.recoveryCodes });
+      })
+    },
+    {
+      method: 'POST', path: '/api/auth/2fa/disable', handler: authorized(({ body }, user) => {
+        if (body.password !== user.password) {
+          return fail(400, 'Your password is incorrect.', INVALID_CURRENT_PASSWORD_CODE);
+        }
+        user.twoFactorEnabled = false;
+        user.recoveryCodes = [];
+        db.save();
+        return ok({ message: 'Two-factor authentication is off' });
+      })
+    }
+  ];
+}
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { FakeDb } from '../fake-db';
+import { FakeHandler, FakeRequest, FakeResponse, FakeRoute, created, fail, ok, validationProblem } from '../fake-http';
+import { PRODUCT_MANAGER_ROLES, hasAnyRole } from '../../auth/roles';
+
+export function laptopRoutes(db: FakeDb): FakeRoute[] {
+  // Reading needs a session, writing also needs one of PRODUCT_MANAGER_ROLES
+  const allowed = (write: boolean, handler: FakeHandler): FakeHandler => (req: FakeRequest) => {
+    const user = db.currentUser();
+    if (!user) {
+      return fail(401, 'Not authenticated');
+    }
+    if (write && !hasAnyRole(user, PRODUCT_MANAGER_ROLES)) {
+      return fail(403, 'You do not have permission to change laptops.');
+    }
+    return handler(req);
+  };
+
+  const findIndex = (id: string) => db.state.laptops.findIndex(laptop => laptop.id === Number(id));
+  const notFound = (): FakeResponse => fail(404, 'Laptop not found');
+
+  return [
+    { method: 'GET', path: '/api/laptops', handler: allowed(false, () => ok(db.state.laptops)) },
+    {
+      method: 'GET', path: '/api/laptops/:id', handler: allowed(false, ({ params }) => {
+        const index = findIndex(params['id']);
+        return index === -1 ? notFound() : ok(db.state.laptops[index]);
+      })
+    },
+    {
+      method: 'POST', path: '/api/laptops', handler: allowed(true, ({ body }) => {
+        if (!body?.name?.trim()) {
+          return validationProblem({ Name: ['Name is required'] });
+        }
+        const laptop = { id: db.state.nextLaptopId++, name: body.name.trim() };
+        db.state.laptops.push(laptop);
+        db.save();
+        return created(laptop);
+      })
+    },
+    {
+      method: 'PUT', path: '/api/laptops/:id', handler: allowed(true, ({ params, body }) => {
+        const index = findIndex(params['id']);
+        if (index === -1) {
+          return notFound();
+        }
+        if (!body?.name?.trim()) {
+          return validationProblem({ Name: ['Name is required'] });
+        }
+        db.state.laptops[index] = { ...db.state.laptops[index], name: body.name.trim() };
+        db.save();
+        return { status: 204 };
+      })
+    },
+    {
+      method: 'DELETE', path: '/api/laptops/:id', handler: allowed(true, ({ params }) => {
+        const index = findIndex(params['id']);
+        if (index === -1) {
+          return notFound();
+        }
+        db.state.laptops.splice(index, 1);
+        db.save();
+        return { status: 204 };
+      })
+    }
+  ];
+}
\ No newline at end of file
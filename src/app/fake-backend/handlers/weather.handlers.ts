@@ -0,0 +1,20 @@
+import { FakeRoute, ok } from '../fake-http';
+
+const SUMMARIES = ['Freezing', 'Bracing', 'Chilly', 'Cool', 'Mild', 'Warm', 'Balmy', 'Hot', 'Sweltering', 'Scorching'];
+
+// Same shape as the ASP.NET Core template's WeatherForecastController
+export function weatherRoutes(): FakeRoute[] {
+  return [
+    {
+      method: 'GET', path: '/weatherforecast', handler: () => ok(Array.from({ length: 5 }, (_, i) => {
+        const temperatureC = Math.floor(Math.random() * 75) - 20;
+        return {
+          date: new Date(Date.now() + (i + 1) * 24 * 60 * 60 * 1000).toISOString().substring(0, 10),
+          temperatureC,
+          temperatureF: 32 + Math.round(temperatureC / 0.5556),
+          summary: SUMMARIES[Math.floor(Math.random() * SUMMARIES.length)]
+        };
+      }))
+    }
+  ];
+}
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { EnvironmentProviders, Provider } from '@angular/core';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { FAKE_BACKEND_CONFIG, FakeBackendConfig } from './fake-backend.config';
+import { fakeBackendInterceptor } from './fake-backend.interceptor';
+
+// For component and service tests: a HttpClient backed by a fresh in-memory fake backend
+//   TestBed.configureTestingModule({ providers: [provideFakeBackend()] });
+// Seed or inspect data through TestBed.inject(FakeDb)
+export function provideFakeBackend(config: Partial<FakeBackendConfig> = {}): (Provider | EnvironmentProviders)[] {
+  return [
+    provideHttpClient(withInterceptors([fakeBackendInterceptor])),
+    {
+      provide: FAKE_BACKEND_CONFIG,
+      useValue: { enabled: true, latencyMs: 0, errorRate: 0, persist: false, ...config }
+    }
+  ];
+}
\ No newline at end of file
@@ -5,22 +5,25 @@ import {MatToolbarModule} from '@angular/material/toolbar';
 import {MatMenuModule} from '@angular/material/menu';
 import {MatDividerModule} from '@angular/material/divider';
 import { RouterLink, Router } from '@angular/router';
-import { AuthService, User } from '../auth/auth.service';
+import { AuthService, AuthStatus, User } from '../auth/auth.service';
+import { PRODUCT_MANAGER_ROLES } from '../auth/roles';
 import { CommonModule } from '@angular/common';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
 import { BreakpointObserver, Breakpoints } from '@angular/cdk/layout';
-import { environment } from '../../environments/environment';
+import { AvatarComponent } from '../avatar/avatar.component';
 
 @Component({
   selector: 'app-menu',
-  imports: [MatToolbarModule, MatButtonModule, MatIconModule, MatMenuModule, MatDividerModule, RouterLink, CommonModule],
+  imports: [MatToolbarModule, MatButtonModule, MatIconModule, MatMenuModule, MatDividerModule, RouterLink, CommonModule, AvatarComponent],
   templateUrl: './menu.component.html',
   styleUrl: './menu.component.css'
 })
 export class MenuComponent {
   user$: Observable<User | null>;
   isAuthenticated$: Observable<boolean>;
+  isAnonymous$: Observable<boolean>;
+  canManageProducts$: Observable<boolean>;
   isMobile$: Observable<boolean>;
 
   constructor(
@@ -30,17 +33,14 @@ export class MenuComponent {
   ) {
     this.user$ = this.authService.user$;
     this.isAuthenticated$ = this.authService.isAuthenticated$;
+    // Only offer Login/Register once the session check says there is no user
+    this.isAnonymous$ = this.authService.authStatus$
+      .pipe(map((status: AuthStatus) => status === 'anonymous'));
+    this.canManageProducts$ = this.authService.hasAnyRole$(PRODUCT_MANAGER_ROLES);
     this.isMobile$ = this.breakpointObserver.observe([Breakpoints.Handset])
       .pipe(map((result: any) => result.matches));
   }
 
-  getProfilePictureUrl(user: User | null): string | null {
-    if (user?.profilePicture) {
-      return `${environment.apiURL}${user.profilePicture}`;
-    }
-    return null;
-  }
-
   getDisplayName(user: User | null): string {
     if (user?.firstName && user?.lastName) {
       return `${user.firstName} ${user.lastName}`;
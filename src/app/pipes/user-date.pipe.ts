@@ -0,0 +1,38 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { AuthService } from '../auth/auth.service';
+import { formatDateTime } from '../utils/user-preferences';
+
+// Like the date pipe, but in the signed-in user's time zone and language (see Profile)
+//   {{ session.lastSeenAt | userDate }}   {{ order.createdAt | userDate:'date' }}
+// Impure so it updates when the user changes their time zone
+@Pipe({
+  name: 'userDate',
+  standalone: true,
+  pure: false
+})
+export class UserDatePipe implements PipeTransform {
+  // Runs on every change detection - only format again when something changed
+  private lastKey = '';
+  private lastResult = '';
+
+  constructor(private authService: AuthService) { }
+
+  transform(value: Date | string | number | null | undefined, format: 'datetime' | 'date' | 'time' = 'datetime'): string {
+    if (value === null || value === undefined || value === '') {
+      return '';
+    }
+    const user = this.authService.getUser();
+    const key = `${value}|${format}|${user?.locale}|${user?.timeZone}`;
+    if (key === this.lastKey) {
+      return this.lastResult;
+    }
+
+    const options: Intl.DateTimeFormatOptions =
+      format === 'date' ? { dateStyle: 'medium' } :
+      format === 'time' ? { timeStyle: 'short' } :
+      { dateStyle: 'medium', timeStyle: 'short' };
+    this.lastKey = key;
+    this.lastResult = formatDateTime(value, user, options);
+    return this.lastResult;
+  }
+}
\ No newline at end of file
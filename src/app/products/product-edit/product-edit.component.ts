@@ -1,11 +1,14 @@
-import { Component, inject, Input, numberAttribute, OnInit } from '@angular/core';
+import { Component, HostListener, inject, Input, numberAttribute, OnInit } from '@angular/core';
 import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
 import { MatButtonModule } from '@angular/material/button';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatInputModule } from '@angular/material/input';
+import { MatSnackBar } from '@angular/material/snack-bar';
 import { Router, RouterLink } from '@angular/router';
 import { Laptop, LaptopCreation } from '../products.models';
 import { ProductsService } from '../products.service';
+import { applyApiErrorToForm, parseApiError } from '../../utils/api-error';
+import { HasUnsavedChanges, warnBeforeUnload } from '../../unsaved-changes/has-unsaved-changes';
 
 @Component({
   selector: 'app-products-edit',
@@ -14,7 +17,7 @@ import { ProductsService } from '../products.service';
   templateUrl: './product-edit.component.html',
   styleUrl: './product-edit.component.css'
 })
-export class ProductsEditComponent implements OnInit {
+export class ProductsEditComponent implements OnInit, HasUnsavedChanges {
   private readonly formBuilder = inject(FormBuilder);
  
   @Input({transform: numberAttribute})
@@ -24,11 +27,21 @@ export class ProductsEditComponent implements OnInit {
 
   productsService = inject(ProductsService);
   router = inject(Router);
+  private snackBar = inject(MatSnackBar);
 
   form = this.formBuilder.group({
     name: [''],
   });
 
+  hasUnsavedChanges(): boolean {
+    return this.form.dirty;
+  }
+
+  @HostListener('window:beforeunload', ['$event'])
+  onBeforeUnload(event: BeforeUnloadEvent) {
+    warnBeforeUnload(event, this);
+  }
+
    ngOnInit(): void {
     this.productsService.getById(this.id).subscribe({
       next: (laptop) => {
@@ -38,7 +51,10 @@ export class ProductsEditComponent implements OnInit {
       },
       error: (error) => {
         console.error('Error loading laptop:', error);
-        alert('Failed to load laptop data');
+        this.snackBar.open(parseApiError(error, 'Failed to load laptop data').message, 'Close', {
+          duration: 3000
+        });
+        this.router.navigate(['/products']);
       }
     });
   }
@@ -49,11 +65,18 @@ export class ProductsEditComponent implements OnInit {
     this.productsService.update(this.id, laptop).subscribe({
       next: () => {
         console.log('Update successful');
+        this.form.markAsPristine();
         this.router.navigate(['/products']);
       },
       error: (error) => {
         console.error('Error updating laptop:', error);
-        alert('Failed to update laptop. Please try again.');
+        const apiError = parseApiError(error, 'Failed to update laptop. Please try again.');
+        const message = applyApiErrorToForm(this.form, apiError);
+        if (message) {
+          this.snackBar.open(message, 'Close', {
+            duration: 3000
+          });
+        }
       }
     });
   }
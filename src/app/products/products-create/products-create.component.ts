@@ -1,4 +1,4 @@
-import { Component, inject } from '@angular/core';
+import { Component, HostListener, inject } from '@angular/core';
 import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
 import { MatButtonModule } from '@angular/material/button';
 import { MatFormFieldModule, MatLabel } from '@angular/material/form-field';
@@ -6,6 +6,9 @@ import { Router, RouterLink } from '@angular/router';
 import { ProductsService } from '../products.service';
 import { LaptopCreation } from '../products.models';
 import { MatInputModule } from '@angular/material/input';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { applyApiErrorToForm, parseApiError } from '../../utils/api-error';
+import { HasUnsavedChanges, warnBeforeUnload } from '../../unsaved-changes/has-unsaved-changes';
 
 
 @Component({
@@ -15,19 +18,41 @@ import { MatInputModule } from '@angular/material/input';
   templateUrl: './products-create.component.html',
   styleUrl: './products-create.component.css',
 })
-export class ProductsCreateComponent {
+export class ProductsCreateComponent implements HasUnsavedChanges {
   private readonly formBuilder = inject(FormBuilder);
   productService = inject(ProductsService);
   router = inject(Router);
+  private snackBar = inject(MatSnackBar);
 
   form = this.formBuilder.group({
     name: [''],
   });
 
+  hasUnsavedChanges(): boolean {
+    return this.form.dirty;
+  }
+
+  @HostListener('window:beforeunload', ['$event'])
+  onBeforeUnload(event: BeforeUnloadEvent) {
+    warnBeforeUnload(event, this);
+  }
+
   saveChanges() {
     const laptop = this.form.value as LaptopCreation;
-    this.productService.create(laptop).subscribe(() => {
-      this.router.navigate(['/products']);
+    this.productService.create(laptop).subscribe({
+      next: () => {
+        this.form.markAsPristine();
+        this.router.navigate(['/products']);
+      },
+      error: (error) => {
+        const apiError = parseApiError(error, 'Failed to create laptop. Please try again.');
+        const message = applyApiErrorToForm(this.form, apiError);
+        if (message) {
+          this.snackBar.open(message, 'Close', {
+            duration: 3000
+          });
+        }
+      }
     });
   }
 }
@@ -1,20 +1,27 @@
 import { Component, inject } from '@angular/core';
 import { MatButtonModule } from '@angular/material/button';
+import { AsyncPipe } from '@angular/common';
 import { RouterLink } from '@angular/router';
 import { ProductsService } from '../products.service';
 import { Laptop } from '../products.models';
+import { AuthService } from '../../auth/auth.service';
+import { PRODUCT_MANAGER_ROLES } from '../../auth/roles';
 
 @Component({
   selector: 'app-products-list',
   standalone: true,
-  imports: [MatButtonModule, RouterLink],
+  imports: [MatButtonModule, RouterLink, AsyncPipe],
   templateUrl: './products-list.component.html',
   styleUrl: './products-list.component.css'
 })
 export class ProductsListComponent {
   productsService = inject(ProductsService);
+  authService = inject(AuthService);
   laptops?: Laptop[];
 
+  // Viewers only see the list - create/edit/delete are for admins and editors
+  canManageProducts$ = this.authService.hasAnyRole$(PRODUCT_MANAGER_ROLES);
+
   constructor(){
    this.loadProducts();
   }
@@ -1,16 +1,27 @@
 import { TestBed } from '@angular/core/testing';
 
 import { ProductsService } from './products.service';
+import { provideFakeBackend } from '../fake-backend/provide-fake-backend';
+import { FakeDb } from '../fake-backend/fake-db';
 
 describe('ProductsService', () => {
   let service: ProductsService;
 
   beforeEach(() => {
-    TestBed.configureTestingModule({});
+    TestBed.configureTestingModule({ providers: [provideFakeBackend()] });
     service = TestBed.inject(ProductsService);
   });
 
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  it('should load laptops from the fake backend', () => {
+    const db = TestBed.inject(FakeDb);
+    db.state.currentUserId = db.state.users[0].id;
+
+    let names: string[] = [];
+    service.getAll().subscribe(laptops => names = laptops.map(laptop => laptop.name));
+    expect(names).toContain('Dell XPS 13');
+  });
 });
@@ -0,0 +1,162 @@
+import { Component } from '@angular/core';
+import { Router } from '@angular/router';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { UserService } from '../../services/user.service';
+import { AuthService } from '../../auth/auth.service';
+import { downloadFile } from '../../utils/download-file';
+import { DeleteAccountDialogComponent, DeleteAccountDialogData } from '../delete-account-dialog/delete-account-dialog.component';
+
+// "Your data" card: GDPR data export and account deletion
+@Component({
+  selector: 'app-account-data',
+  standalone: true,
+  imports: [CommonModule, MatCardModule, MatButtonModule, MatIconModule, MatDialogModule, MatProgressSpinnerModule, MatSnackBarModule],
+  template: `
+    <mat-card class="account-data-card">
+      <mat-card-header>
+        <mat-card-title>
+          <mat-icon>folder_shared</mat-icon>
+          Your data
+        </mat-card-title>
+      </mat-card-header>
+
+      <mat-card-content>
+        <div class="data-action">
+          <div class="data-text">
+            <span class="data-title">Download my data</span>
+            <span class="data-hint">Get a copy of your profile and activity as a JSON file.</span>
+          </div>
+          <button mat-stroked-button (click)="downloadData()" [disabled]="isExporting">
+            <mat-spinner *ngIf="isExporting" diameter="20" class="button-spinner"></mat-spinner>
+            <mat-icon *ngIf="!isExporting">download</mat-icon>
+            Download
+          </button>
+        </div>
+
+        <div class="data-action danger">
+          <div class="data-text">
+            <span class="data-title">Delete account</span>
+            <span class="data-hint">Permanently remove your account and all of its data.</span>
+          </div>
+          <button mat-raised-button color="warn" (click)="openDeleteDialog()">
+            <mat-icon>delete_forever</mat-icon>
+            Delete account
+          </button>
+        </div>
+      </mat-card-content>
+    </mat-card>
+  `,
+  styles: [`
+    .account-data-card {
+      width: 100%;
+      max-width: 800px;
+      box-shadow: 0 4px 12px rgba(0,0,0,0.1);
+    }
+
+    .data-action {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 16px;
+      padding: 16px 0;
+    }
+
+    .data-action + .data-action {
+      border-top: 1px solid #e0e0e0;
+    }
+
+    .data-text {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+
+    .data-title {
+      font-weight: 500;
+    }
+
+    .danger .data-title {
+      color: #f44336;
+    }
+
+    .data-hint {
+      color: rgba(0, 0, 0, 0.6);
+      font-size: 13px;
+    }
+
+    .button-spinner {
+      display: inline-block;
+      margin-right: 8px;
+    }
+
+    mat-card-header {
+      margin-bottom: 16px;
+    }
+
+    mat-card-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-size: 24px;
+    }
+
+    @media (max-width: 600px) {
+      .data-action {
+        flex-direction: column;
+        align-items: stretch;
+      }
+
+      mat-card-title {
+        font-size: 20px;
+      }
+    }
+  `]
+})
+export class AccountDataComponent {
+  isExporting = false;
+
+  constructor(
+    private userService: UserService,
+    private authService: AuthService,
+    private dialog: MatDialog,
+    private router: Router,
+    private snackBar: MatSnackBar
+  ) { }
+
+  downloadData() {
+    this.isExporting = true;
+    this.userService.exportData().subscribe({
+      next: (data) => {
+        this.isExporting = false;
+        const date = new Date().toISOString().slice(0, 10);
+        downloadFile(data, `my-data-${date}.json`);
+      },
+      error: () => {
+        this.isExporting = false;
+        this.snackBar.open('Failed to export your data. Please try again.', 'Close', {
+          duration: 3000
+        });
+      }
+    });
+  }
+
+  openDeleteDialog() {
+    const email = this.authService.getUser()?.email || '';
+    this.dialog.open<DeleteAccountDialogComponent, DeleteAccountDialogData, boolean>(DeleteAccountDialogComponent, {
+      data: { email },
+      width: '480px'
+    }).afterClosed().subscribe(deleted => {
+      if (deleted) {
+        // The backend already removed the session - just forget it here and in other tabs
+        this.authService.clearSession('logout');
+        this.router.navigate(['/goodbye']);
+      }
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,258 @@
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { UserService, UserSession } from '../../services/user.service';
+import { parseApiError } from '../../utils/api-error';
+import { UserDatePipe } from '../../pipes/user-date.pipe';
+
+@Component({
+  selector: 'app-active-sessions',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    UserDatePipe
+  ],
+  template: `
+    <mat-card class="sessions-card">
+      <mat-card-header>
+        <mat-card-title>
+          <mat-icon>devices</mat-icon>
+          Where you're signed in
+        </mat-card-title>
+      </mat-card-header>
+
+      <mat-card-content>
+        @if (isLoading) {
+          <div class="loading">
+            <mat-spinner diameter="32"></mat-spinner>
+          </div>
+        } @else {
+          <ul class="session-list">
+            @for (session of sessions; track session.id) {
+              <li class="session">
+                <mat-icon class="session-icon">{{ getDeviceIcon(session) }}</mat-icon>
+                <div class="session-info">
+                  <span class="session-device">
+                    {{ session.device }} · {{ session.browser }}
+                    @if (session.isCurrent) {
+                      <span class="current-badge">This device</span>
+                    }
+                  </span>
+                  <span class="session-meta">
+                    {{ session.location || 'Unknown location' }} ·
+                    {{ session.isCurrent ? 'Active now' : 'Last seen ' + (session.lastSeenAt | userDate) }}
+                  </span>
+                </div>
+                @if (!session.isCurrent) {
+                  <button mat-stroked-button color="warn" (click)="revoke(session)" [disabled]="revokingId === session.id">
+                    Sign out
+                  </button>
+                }
+              </li>
+            } @empty {
+              <li class="session-empty">No active sessions found.</li>
+            }
+          </ul>
+
+          @if (hasOtherSessions()) {
+            <div class="button-group">
+              <button mat-raised-button color="warn" (click)="revokeOthers()" [disabled]="isRevokingOthers">
+                <mat-spinner *ngIf="isRevokingOthers" diameter="20" class="button-spinner"></mat-spinner>
+                <mat-icon *ngIf="!isRevokingOthers">logout</mat-icon>
+                Sign out all other sessions
+              </button>
+            </div>
+          }
+        }
+      </mat-card-content>
+    </mat-card>
+  `,
+  styles: [`
+    .sessions-card {
+      width: 100%;
+      max-width: 800px;
+      box-shadow: 0 4px 12px rgba(0,0,0,0.1);
+    }
+
+    .loading {
+      display: flex;
+      justify-content: center;
+      padding: 24px 0;
+    }
+
+    .session-list {
+      margin: 0;
+      padding: 0;
+      list-style: none;
+    }
+
+    .session {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 12px 0;
+      border-bottom: 1px solid #e0e0e0;
+    }
+
+    .session-icon {
+      color: #757575;
+    }
+
+    .session-info {
+      display: flex;
+      flex-direction: column;
+      flex: 1;
+      min-width: 0;
+    }
+
+    .session-device {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-weight: 500;
+    }
+
+    .session-meta, .session-empty {
+      color: rgba(0, 0, 0, 0.6);
+      font-size: 13px;
+    }
+
+    .current-badge {
+      padding: 2px 8px;
+      border-radius: 12px;
+      background-color: #e8f5e8;
+      color: #4caf50;
+      font-size: 11px;
+      font-weight: 500;
+    }
+
+    .button-group {
+      display: flex;
+      justify-content: flex-end;
+      margin-top: 20px;
+    }
+
+    .button-spinner {
+      margin-right: 8px;
+    }
+
+    mat-card-header {
+      margin-bottom: 16px;
+    }
+
+    mat-card-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-size: 24px;
+    }
+
+    @media (max-width: 600px) {
+      .session {
+        flex-wrap: wrap;
+      }
+
+      .button-group {
+        flex-direction: column;
+      }
+
+      mat-card-title {
+        font-size: 20px;
+      }
+    }
+  `]
+})
+export class ActiveSessionsComponent implements OnInit {
+  sessions: UserSession[] = [];
+  isLoading = false;
+  isRevokingOthers = false;
+  revokingId: string | null = null;
+
+  constructor(
+    private userService: UserService,
+    private snackBar: MatSnackBar
+  ) { }
+
+  ngOnInit() {
+    this.loadSessions();
+  }
+
+  loadSessions() {
+    this.isLoading = true;
+    this.userService.getSessions().subscribe({
+      next: (sessions) => {
+        this.isLoading = false;
+        // Show this device first, then the most recently used
+        this.sessions = [...sessions].sort((a, b) =>
+          Number(b.isCurrent) - Number(a.isCurrent) || b.lastSeenAt.localeCompare(a.lastSeenAt));
+      },
+      error: (error) => {
+        this.isLoading = false;
+        const message = parseApiError(error, 'Failed to load your sessions').message;
+        this.snackBar.open(message, 'Close', {
+          duration: 3000
+        });
+      }
+    });
+  }
+
+  hasOtherSessions(): boolean {
+    return this.sessions.some(session => !session.isCurrent);
+  }
+
+  getDeviceIcon(session: UserSession): string {
+    const device = session.device.toLowerCase();
+    if (/(iphone|android|phone|mobile)/.test(device)) return 'smartphone';
+    if (/(ipad|tablet)/.test(device)) return 'tablet';
+    return 'computer';
+  }
+
+  revoke(session: UserSession) {
+    this.revokingId = session.id;
+    this.userService.revokeSession(session.id).subscribe({
+      next: (response) => {
+        this.revokingId = null;
+        this.sessions = this.sessions.filter(s => s.id !== session.id);
+        this.snackBar.open(response.message, 'Close', {
+          duration: 3000
+        });
+      },
+      error: (error) => {
+        this.revokingId = null;
+        const message = parseApiError(error, 'Failed to sign out that session').message;
+        this.snackBar.open(message, 'Close', {
+          duration: 3000
+        });
+      }
+    });
+  }
+
+  revokeOthers() {
+    this.isRevokingOthers = true;
+    this.userService.revokeOtherSessions().subscribe({
+      next: (response) => {
+        this.isRevokingOthers = false;
+        this.sessions = this.sessions.filter(s => s.isCurrent);
+        this.snackBar.open(response.message, 'Close', {
+          duration: 3000
+        });
+      },
+      error: (error) => {
+        this.isRevokingOthers = false;
+        const message = parseApiError(error, 'Failed to sign out other sessions').message;
+        this.snackBar.open(message, 'Close', {
+          duration: 3000
+        });
+      }
+    });
+  }
+}
\ No newline at end of file
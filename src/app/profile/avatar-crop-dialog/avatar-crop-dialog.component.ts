@@ -0,0 +1,265 @@
+import { AfterViewInit, Component, ElementRef, Inject, OnDestroy, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSliderModule } from '@angular/material/slider';
+import { CropImage, CropState, INITIAL_CROP_STATE, clampCropState, drawCrop, exportCrop, loadImage } from './image-crop';
+
+export interface AvatarCropDialogData {
+  file: File;
+}
+
+// Size of the uploaded avatar in pixels
+export const AVATAR_SIZE = 512;
+
+// Preview size in CSS pixels - the canvas itself is scaled for sharp retina rendering
+const PREVIEW_SIZE = 300;
+
+// Closes with the cropped, downscaled image, or undefined when cancelled
+@Component({
+  selector: 'app-avatar-crop-dialog',
+  standalone: true,
+  imports: [CommonModule, FormsModule, MatDialogModule, MatButtonModule, MatButtonToggleModule, MatIconModule, MatProgressSpinnerModule, MatSliderModule],
+  template: `
+    <h2 mat-dialog-title>Adjust your picture</h2>
+    <mat-dialog-content class="dialog-content">
+      <div class="crop-area" [style.width.px]="previewSize" [style.height.px]="previewSize">
+        <canvas #canvas
+                [style.width.px]="previewSize"
+                [style.height.px]="previewSize"
+                (pointerdown)="startDrag($event)"
+                (pointermove)="drag($event)"
+                (pointerup)="endDrag($event)"
+                (pointercancel)="endDrag($event)"
+                (wheel)="onWheel($event)"></canvas>
+        <div class="mask" [class.circle]="mask === 'circle'"></div>
+        @if (!image && !errorMessage) {
+          <mat-spinner diameter="40" class="loading"></mat-spinner>
+        }
+      </div>
+
+      @if (errorMessage) {
+        <div class="error-message">
+          <mat-icon>error</mat-icon>
+          {{ errorMessage }}
+        </div>
+      }
+
+      <div class="controls">
+        <mat-icon>zoom_out</mat-icon>
+        <mat-slider min="1" max="4" step="0.01" class="zoom-slider" [disabled]="!image">
+          <input matSliderThumb [ngModel]="state.zoom" (ngModelChange)="setZoom($event)" aria-label="Zoom">
+        </mat-slider>
+        <mat-icon>zoom_in</mat-icon>
+      </div>
+
+      <div class="controls">
+        <button type="button" mat-icon-button (click)="rotate(-90)" [disabled]="!image" aria-label="Rotate left">
+          <mat-icon>rotate_left</mat-icon>
+        </button>
+        <button type="button" mat-icon-button (click)="rotate(90)" [disabled]="!image" aria-label="Rotate right">
+          <mat-icon>rotate_right</mat-icon>
+        </button>
+        <mat-button-toggle-group [(ngModel)]="mask" aria-label="Preview shape" class="mask-toggle">
+          <mat-button-toggle value="circle"><mat-icon>circle</mat-icon></mat-button-toggle>
+          <mat-button-toggle value="square"><mat-icon>square</mat-icon></mat-button-toggle>
+        </mat-button-toggle-group>
+      </div>
+      <p class="hint">Drag to move, scroll or use the slider to zoom.</p>
+    </mat-dialog-content>
+    <mat-dialog-actions align="end">
+      <button type="button" mat-button mat-dialog-close [disabled]="isSaving">Cancel</button>
+      <button type="button" mat-raised-button color="primary" (click)="save()" [disabled]="!image || isSaving">
+        <mat-spinner *ngIf="isSaving" diameter="20" class="button-spinner"></mat-spinner>
+        Use picture
+      </button>
+    </mat-dialog-actions>
+  `,
+  styles: [`
+    .dialog-content {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .crop-area {
+      position: relative;
+      overflow: hidden;
+      border-radius: 4px;
+      background-color: #eee;
+    }
+
+    canvas {
+      display: block;
+      cursor: grab;
+      touch-action: none;
+    }
+
+    canvas:active {
+      cursor: grabbing;
+    }
+
+    /* Dims everything outside the avatar shape */
+    .mask {
+      position: absolute;
+      inset: 0;
+      pointer-events: none;
+      box-shadow: inset 0 0 0 2px rgba(255, 255, 255, 0.8);
+    }
+
+    .mask.circle {
+      border-radius: 50%;
+      box-shadow: 0 0 0 9999px rgba(0, 0, 0, 0.45), inset 0 0 0 2px rgba(255, 255, 255, 0.8);
+    }
+
+    .loading {
+      position: absolute;
+      top: calc(50% - 20px);
+      left: calc(50% - 20px);
+    }
+
+    .controls {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      width: 100%;
+      max-width: 300px;
+    }
+
+    .zoom-slider {
+      flex: 1;
+    }
+
+    .mask-toggle {
+      margin-left: auto;
+    }
+
+    .hint {
+      margin: 0;
+      color: rgba(0, 0, 0, 0.6);
+      font-size: 12px;
+    }
+
+    .button-spinner {
+      display: inline-block;
+      margin-right: 8px;
+    }
+
+    .error-message {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      color: #f44336;
+      background-color: #ffebee;
+      padding: 12px;
+      border-radius: 4px;
+      font-size: 14px;
+    }
+  `]
+})
+export class AvatarCropDialogComponent implements AfterViewInit, OnDestroy {
+  @ViewChild('canvas') canvasRef!: ElementRef<HTMLCanvasElement>;
+
+  readonly previewSize = PREVIEW_SIZE;
+  image: CropImage | null = null;
+  state: CropState = INITIAL_CROP_STATE;
+  // Only changes the preview - the saved file is always square, MenuComponent shows it round
+  mask: 'circle' | 'square' = 'circle';
+  isSaving = false;
+  errorMessage = '';
+
+  private dragStart: { x: number; y: number; offsetX: number; offsetY: number } | null = null;
+
+  constructor(
+    private dialogRef: MatDialogRef<AvatarCropDialogComponent, Blob>,
+    @Inject(MAT_DIALOG_DATA) private data: AvatarCropDialogData
+  ) { }
+
+  ngAfterViewInit() {
+    const canvas = this.canvasRef.nativeElement;
+    canvas.width = canvas.height = Math.round(PREVIEW_SIZE * (window.devicePixelRatio || 1));
+
+    loadImage(this.data.file).then(image => {
+      this.image = image;
+      this.render();
+    }).catch(() => {
+      this.errorMessage = 'This image could not be opened. Please choose another file.';
+    });
+  }
+
+  ngOnDestroy() {
+    if (this.image && 'close' in this.image) {
+      this.image.close();
+    }
+  }
+
+  setZoom(zoom: number) {
+    this.update({ ...this.state, zoom });
+  }
+
+  rotate(degrees: number) {
+    this.update({ ...this.state, rotation: (this.state.rotation + degrees + 360) % 360 });
+  }
+
+  onWheel(event: WheelEvent) {
+    event.preventDefault();
+    const zoom = Math.min(4, Math.max(1, this.state.zoom - event.deltaY * 0.002));
+    this.update({ ...this.state, zoom });
+  }
+
+  startDrag(event: PointerEvent) {
+    if (!this.image) {
+      return;
+    }
+    (event.target as HTMLElement).setPointerCapture(event.pointerId);
+    this.dragStart = { x: event.clientX, y: event.clientY, offsetX: this.state.offsetX, offsetY: this.state.offsetY };
+  }
+
+  drag(event: PointerEvent) {
+    if (!this.dragStart) {
+      return;
+    }
+    this.update({
+      ...this.state,
+      offsetX: this.dragStart.offsetX + (event.clientX - this.dragStart.x) / PREVIEW_SIZE,
+      offsetY: this.dragStart.offsetY + (event.clientY - this.dragStart.y) / PREVIEW_SIZE
+    });
+  }
+
+  endDrag(event: PointerEvent) {
+    this.dragStart = null;
+    (event.target as HTMLElement).releasePointerCapture?.(event.pointerId);
+  }
+
+  save() {
+    if (!this.image) {
+      return;
+    }
+    this.isSaving = true;
+    exportCrop(this.image, this.state, AVATAR_SIZE).then(blob => {
+      this.dialogRef.close(blob);
+    }).catch(() => {
+      this.isSaving = false;
+      this.errorMessage = 'Could not process the image. Please try another file.';
+    });
+  }
+
+  private update(state: CropState) {
+    if (!this.image) {
+      return;
+    }
+    this.state = clampCropState(this.image, state);
+    this.render();
+  }
+
+  private render() {
+    if (this.image) {
+      drawCrop(this.canvasRef.nativeElement, this.image, this.state);
+    }
+  }
+}
\ No newline at end of file
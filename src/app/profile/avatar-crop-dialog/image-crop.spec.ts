@@ -0,0 +1,23 @@
+import { clampCropState, INITIAL_CROP_STATE } from './image-crop';
+
+describe('clampCropState', () => {
+  // 200x100 landscape: at zoom 1 it is twice as wide as the crop square
+  const image = { width: 200, height: 100 } as ImageBitmap;
+
+  it('should allow panning along the longer side only as far as the image reaches', () => {
+    const state = clampCropState(image, { ...INITIAL_CROP_STATE, offsetX: 2, offsetY: 0.3 });
+    expect(state.offsetX).toBe(0.5);
+    expect(state.offsetY).toBe(0);
+  });
+
+  it('should swap the axes when the image is rotated', () => {
+    const state = clampCropState(image, { ...INITIAL_CROP_STATE, rotation: 90, offsetX: 2, offsetY: -2 });
+    expect(state.offsetX).toBe(0);
+    expect(state.offsetY).toBe(-0.5);
+  });
+
+  it('should allow more panning when zoomed in', () => {
+    const state = clampCropState(image, { ...INITIAL_CROP_STATE, zoom: 2, offsetY: 1 });
+    expect(state.offsetY).toBe(0.5);
+  });
+});
\ No newline at end of file
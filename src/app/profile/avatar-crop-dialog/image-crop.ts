@@ -0,0 +1,107 @@
+/**
+ * Canvas helpers for the avatar crop dialog
+ * The same drawing code renders the on-screen preview and the uploaded file,
+ * so what the user sees is exactly what gets saved
+ */
+
+export type CropImage = ImageBitmap | HTMLImageElement;
+
+export interface CropState {
+  zoom: number;            // 1 = the image just covers the crop square
+  rotation: number;        // Degrees, multiple of 90
+  offsetX: number;         // Pan as a fraction of the crop size (0 = centered)
+  offsetY: number;
+}
+
+export const INITIAL_CROP_STATE: CropState = { zoom: 1, rotation: 0, offsetX: 0, offsetY: 0 };
+
+// Decodes the file with its EXIF orientation applied, so phone photos aren't sideways
+// createImageBitmap does this explicitly - older browsers fall back to <img>, which also honours EXIF
+export async function loadImage(file: Blob): Promise<CropImage> {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+      // Unsupported options or format - try the <img> route below
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function imageSize(image: CropImage): { width: number; height: number } {
+  return image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+}
+
+// Width/height of the image after rotation, scaled so it covers a square of `size` at zoom 1
+function scaledSize(image: CropImage, state: CropState, size: number): { width: number; height: number; scale: number } {
+  const { width, height } = imageSize(image);
+  const sideways = Math.abs(state.rotation) % 180 === 90;
+  const rotatedWidth = sideways ? height : width;
+  const rotatedHeight = sideways ? width : height;
+  const scale = (size / Math.min(rotatedWidth, rotatedHeight)) * state.zoom;
+  return { width: rotatedWidth * scale, height: rotatedHeight * scale, scale };
+}
+
+// Keeps the image covering the whole crop square - no empty corners in the avatar
+export function clampCropState(image: CropImage, state: CropState): CropState {
+  const { width, height } = scaledSize(image, state, 1);
+  const maxX = Math.max(0, (width - 1) / 2);
+  const maxY = Math.max(0, (height - 1) / 2);
+  return {
+    ...state,
+    offsetX: Math.min(maxX, Math.max(-maxX, state.offsetX)),
+    offsetY: Math.min(maxY, Math.max(-maxY, state.offsetY))
+  };
+}
+
+export function drawCrop(canvas: HTMLCanvasElement, image: CropImage, state: CropState): void {
+  const size = canvas.width;
+  const context = canvas.getContext('2d')!;
+  const { width, height } = imageSize(image);
+  const { scale } = scaledSize(image, state, size);
+
+  context.save();
+  // White background - JPEG has no transparency
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, size, size);
+  context.imageSmoothingQuality = 'high';
+  context.translate(size / 2 + state.offsetX * size, size / 2 + state.offsetY * size);
+  context.rotate((state.rotation * Math.PI) / 180);
+  context.scale(scale, scale);
+  context.drawImage(image, -width / 2, -height / 2);
+  context.restore();
+}
+
+// Renders the crop at `size` x `size` - WebP where the browser can encode it, JPEG otherwise
+export async function exportCrop(image: CropImage, state: CropState, size = 512): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  drawCrop(canvas, image, state);
+
+  const webp = await toBlob(canvas, 'image/webp', 0.9);
+  // Browsers without a WebP encoder silently return PNG instead
+  if (webp?.type === 'image/webp') {
+    return webp;
+  }
+  const jpeg = await toBlob(canvas, 'image/jpeg', 0.9);
+  if (!jpeg) {
+    throw new Error('Could not process the image');
+  }
+  return jpeg;
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+}
\ No newline at end of file
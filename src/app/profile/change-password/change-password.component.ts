@@ -0,0 +1,210 @@
+import { Component } from '@angular/core';
+import { FormBuilder, FormGroup, FormGroupDirective, Validators, ReactiveFormsModule } from '@angular/forms';
+import { HttpErrorResponse } from '@angular/common/http';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { UserService, INVALID_CURRENT_PASSWORD_CODE } from '../../services/user.service';
+import { passwordMatchValidator } from '../../auth/password-validators';
+import { AuthService } from '../../auth/auth.service';
+import { PasswordContext } from '../../auth/password-policy/password-policy';
+import { passwordPolicyValidator } from '../../auth/password-policy/password-policy.validator';
+import { PasswordStrengthMeterComponent } from '../../auth/password-policy/password-strength-meter.component';
+import { parseApiError } from '../../utils/api-error';
+
+@Component({
+  selector: 'app-change-password',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatCardModule,
+    MatInputModule,
+    MatButtonModule,
+    MatIconModule,
+    MatCheckboxModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    PasswordStrengthMeterComponent
+  ],
+  template: `
+    <mat-card class="change-password-card">
+      <mat-card-header>
+        <mat-card-title>
+          <mat-icon>password</mat-icon>
+          Change Password
+        </mat-card-title>
+      </mat-card-header>
+
+      <mat-card-content>
+        <form [formGroup]="passwordForm" (ngSubmit)="onSubmit(formDirective)" #formDirective="ngForm" class="password-form">
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Current Password</mat-label>
+            <input matInput type="password" formControlName="currentPassword" autocomplete="current-password" required>
+            <mat-icon matSuffix>lock_open</mat-icon>
+            <mat-error *ngIf="passwordForm.get('currentPassword')?.hasError('required')">
+              Current password is required
+            </mat-error>
+            <mat-error *ngIf="passwordForm.get('currentPassword')?.hasError('incorrect')">
+              Current password is incorrect
+            </mat-error>
+          </mat-form-field>
+
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>New Password</mat-label>
+            <input matInput type="password" formControlName="password" autocomplete="new-password" required>
+            <mat-icon matSuffix>lock</mat-icon>
+            <mat-error *ngIf="passwordForm.get('password')?.hasError('required')">
+              Password is required
+            </mat-error>
+            <mat-error *ngIf="passwordForm.get('password')?.hasError('passwordPolicy')">
+              Password doesn't meet the requirements below
+            </mat-error>
+          </mat-form-field>
+
+          <app-password-strength-meter
+            [password]="passwordForm.get('password')?.value"
+            [context]="userContext">
+          </app-password-strength-meter>
+
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Confirm New Password</mat-label>
+            <input matInput type="password" formControlName="confirmPassword" autocomplete="new-password" required>
+            <mat-icon matSuffix>lock</mat-icon>
+            <mat-error *ngIf="passwordForm.get('confirmPassword')?.hasError('required')">
+              Please confirm your password
+            </mat-error>
+            <mat-error *ngIf="passwordForm.get('confirmPassword')?.hasError('passwordMismatch')">
+              Passwords do not match
+            </mat-error>
+          </mat-form-field>
+
+          <mat-checkbox formControlName="signOutOtherSessions">
+            Sign out of all other devices
+          </mat-checkbox>
+
+          <div class="button-group">
+            <button
+              type="submit"
+              mat-raised-button
+              color="primary"
+              [disabled]="passwordForm.invalid || isLoading">
+              <mat-spinner *ngIf="isLoading" diameter="20" class="button-spinner"></mat-spinner>
+              <mat-icon *ngIf="!isLoading">save</mat-icon>
+              Change Password
+            </button>
+          </div>
+        </form>
+      </mat-card-content>
+    </mat-card>
+  `,
+  styles: [`
+    .change-password-card {
+      width: 100%;
+      max-width: 800px;
+      box-shadow: 0 4px 12px rgba(0,0,0,0.1);
+    }
+
+    .password-form {
+      display: flex;
+      flex-direction: column;
+      gap: 20px;
+      margin-top: 20px;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .button-group {
+      display: flex;
+      justify-content: flex-end;
+    }
+
+    .button-spinner {
+      margin-right: 8px;
+    }
+
+    mat-card-header {
+      margin-bottom: 16px;
+    }
+
+    mat-card-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-size: 24px;
+    }
+
+    @media (max-width: 600px) {
+      .button-group {
+        flex-direction: column;
+      }
+
+      mat-card-title {
+        font-size: 20px;
+      }
+    }
+  `]
+})
+export class ChangePasswordComponent {
+  passwordForm: FormGroup;
+  isLoading = false;
+  // Name and email aren't part of this form, so take them from the logged-in user
+  userContext: PasswordContext;
+
+  constructor(
+    private fb: FormBuilder,
+    private userService: UserService,
+    private authService: AuthService,
+    private snackBar: MatSnackBar
+  ) {
+    this.userContext = this.authService.getUser() ?? {};
+    this.passwordForm = this.fb.group({
+      currentPassword: ['', Validators.required],
+      password: ['', [Validators.required, passwordPolicyValidator(undefined, () => this.userContext)]],
+      confirmPassword: ['', Validators.required],
+      signOutOtherSessions: [false]
+    }, { validators: passwordMatchValidator });
+  }
+
+  onSubmit(formDirective: FormGroupDirective) {
+    if (this.passwordForm.valid) {
+      this.isLoading = true;
+
+      this.userService.changePassword({
+        currentPassword: this.passwordForm.value.currentPassword,
+        newPassword: this.passwordForm.value.password,
+        signOutOtherSessions: this.passwordForm.value.signOutOtherSessions
+      }).subscribe({
+        next: (response) => {
+          this.isLoading = false;
+          // resetForm() also clears the "submitted" state so no red errors show up
+          formDirective.resetForm({ signOutOtherSessions: false });
+          this.snackBar.open(response.message, 'Close', {
+            duration: 3000
+          });
+        },
+        error: (error: HttpErrorResponse) => {
+          this.isLoading = false;
+          if (error.error?.code === INVALID_CURRENT_PASSWORD_CODE) {
+            // Show the problem right under the field instead of a snackbar
+            const currentPassword = this.passwordForm.get('currentPassword');
+            currentPassword?.setErrors({ incorrect: true });
+            currentPassword?.markAsTouched();
+            return;
+          }
+          const message = parseApiError(error, 'Failed to change password. Please try again.').message;
+          this.snackBar.open(message, 'Close', {
+            duration: 3000
+          });
+        }
+      });
+    }
+  }
+}
\ No newline at end of file
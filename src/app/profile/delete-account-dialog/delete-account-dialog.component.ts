@@ -0,0 +1,152 @@
+import { Component, Inject } from '@angular/core';
+import { AbstractControl, FormBuilder, FormGroup, ValidationErrors, ValidatorFn, Validators, ReactiveFormsModule } from '@angular/forms';
+import { HttpErrorResponse } from '@angular/common/http';
+import { CommonModule } from '@angular/common';
+import { MAT_DIALOG_DATA, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { UserService, INVALID_CURRENT_PASSWORD_CODE } from '../../services/user.service';
+import { parseApiError } from '../../utils/api-error';
+
+export interface DeleteAccountDialogData {
+  email: string;
+}
+
+// The user has to type their own email to prove they mean it
+function matchesEmail(email: string): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    const typed = (control.value || '').trim().toLowerCase();
+    return typed === email.trim().toLowerCase() ? null : { emailMismatch: true };
+  };
+}
+
+@Component({
+  selector: 'app-delete-account-dialog',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, MatDialogModule, MatInputModule, MatButtonModule, MatIconModule, MatProgressSpinnerModule],
+  template: `
+    <h2 mat-dialog-title class="dialog-title">
+      <mat-icon>warning</mat-icon>
+      Delete account
+    </h2>
+    <form [formGroup]="deleteForm" (ngSubmit)="onSubmit()">
+      <mat-dialog-content class="dialog-content">
+        <p>
+          This permanently deletes your account, profile picture and all your data.
+          It cannot be undone.
+        </p>
+
+        <mat-form-field appearance="outline" class="full-width">
+          <mat-label>Password</mat-label>
+          <input matInput type="password" formControlName="password" autocomplete="current-password" required>
+          <mat-error *ngIf="deleteForm.get('password')?.hasError('required')">
+            Password is required
+          </mat-error>
+          <mat-error *ngIf="deleteForm.get('password')?.hasError('incorrect')">
+            Password is incorrect
+          </mat-error>
+        </mat-form-field>
+
+        <mat-form-field appearance="outline" class="full-width">
+          <mat-label>Type {{ data.email }} to confirm</mat-label>
+          <input matInput type="email" formControlName="confirmEmail" autocomplete="off" required>
+          <mat-error *ngIf="deleteForm.get('confirmEmail')?.hasError('emailMismatch')">
+            Email does not match
+          </mat-error>
+        </mat-form-field>
+
+        <div class="error-message" *ngIf="errorMessage">
+          <mat-icon>error</mat-icon>
+          {{ errorMessage }}
+        </div>
+      </mat-dialog-content>
+      <mat-dialog-actions align="end">
+        <button type="button" mat-button mat-dialog-close [disabled]="isLoading">Cancel</button>
+        <button type="submit" mat-raised-button color="warn" [disabled]="deleteForm.invalid || isLoading">
+          <mat-spinner *ngIf="isLoading" diameter="20" class="button-spinner"></mat-spinner>
+          Delete my account
+        </button>
+      </mat-dialog-actions>
+    </form>
+  `,
+  styles: [`
+    .dialog-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      color: #f44336;
+    }
+
+    .dialog-content {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .button-spinner {
+      display: inline-block;
+      margin-right: 8px;
+    }
+
+    .error-message {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      color: #f44336;
+      background-color: #ffebee;
+      padding: 12px;
+      border-radius: 4px;
+      font-size: 14px;
+    }
+  `]
+})
+export class DeleteAccountDialogComponent {
+  deleteForm: FormGroup;
+  isLoading = false;
+  errorMessage = '';
+
+  constructor(
+    private fb: FormBuilder,
+    private userService: UserService,
+    private dialogRef: MatDialogRef<DeleteAccountDialogComponent, boolean>,
+    @Inject(MAT_DIALOG_DATA) public data: DeleteAccountDialogData
+  ) {
+    this.deleteForm = this.fb.group({
+      password: ['', Validators.required],
+      confirmEmail: ['', [Validators.required, matchesEmail(data.email)]]
+    });
+  }
+
+  onSubmit() {
+    if (this.deleteForm.invalid) {
+      return;
+    }
+
+    this.isLoading = true;
+    this.errorMessage = '';
+    // Keep the dialog open until the backend answers
+    this.dialogRef.disableClose = true;
+
+    this.userService.deleteAccount({ password: this.deleteForm.value.password }).subscribe({
+      next: () => {
+        this.isLoading = false;
+        this.dialogRef.close(true);
+      },
+      error: (error: HttpErrorResponse) => {
+        this.isLoading = false;
+        this.dialogRef.disableClose = false;
+        if (error.error?.code === INVALID_CURRENT_PASSWORD_CODE) {
+          this.deleteForm.get('password')?.setErrors({ incorrect: true });
+          return;
+        }
+        this.errorMessage = parseApiError(error, 'Failed to delete your account. Please try again.').message;
+      }
+    });
+  }
+}
\ No newline at end of file
@@ -1,5 +1,5 @@
-import { Component, OnInit } from '@angular/core';
-import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
+import { Component, HostListener, OnDestroy, OnInit } from '@angular/core';
+import { AbstractControl, FormBuilder, FormGroup, ValidationErrors, Validators, ReactiveFormsModule } from '@angular/forms';
 import { Router } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import { MatCardModule } from '@angular/material/card';
@@ -9,10 +9,39 @@ import { MatIconModule } from '@angular/material/icon';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { MatDividerModule } from '@angular/material/divider';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { Observable, Subscription } from 'rxjs';
+import { map, startWith } from 'rxjs/operators';
+import { MatSelectModule } from '@angular/material/select';
+import { MatAutocompleteModule } from '@angular/material/autocomplete';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
 import { UserService } from '../services/user.service';
-import { AuthService } from '../auth/auth.service';
+import { AuthService, User } from '../auth/auth.service';
+import { AvatarComponent } from '../avatar/avatar.component';
 import { capitalizeNames } from '../utils/name-utils';
-import { environment } from '../../environments/environment';
+import { TwoFactorSettingsComponent } from './two-factor-settings/two-factor-settings.component';
+import { ChangePasswordComponent } from './change-password/change-password.component';
+import { ActiveSessionsComponent } from './active-sessions/active-sessions.component';
+import { AccountDataComponent } from './account-data/account-data.component';
+import { applyApiErrorToForm, parseApiError } from '../utils/api-error';
+import { AvatarCropDialogComponent, AvatarCropDialogData } from './avatar-crop-dialog/avatar-crop-dialog.component';
+import { FileDropDirective } from '../directives/file-drop.directive';
+import { HasUnsavedChanges, warnBeforeUnload } from '../unsaved-changes/has-unsaved-changes';
+import { normalizePhoneNumber, phoneNumberValidator } from '../utils/phone-number';
+import { SUPPORTED_LOCALES, getBrowserTimeZone, getTimeZones, isValidTimeZone } from '../utils/user-preferences';
+
+// Rules for the picture the user picks
+const PICTURE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+// Higher than the old 5MB upload limit on purpose: the original is only decoded in the browser
+// for the crop dialog (so full-size phone photos work) - what gets uploaded is always the
+// 512x512 crop, a few hundred KB at most
+const MAX_PICTURE_SIZE = 20 * 1024 * 1024;
+const BIO_MAX_LENGTH = 280;
+
+// Free text in the autocomplete must still end up as a real IANA zone
+function timeZoneValidator(control: AbstractControl): ValidationErrors | null {
+  return !control.value || isValidTimeZone(control.value) ? null : { timeZone: true };
+}
 
 @Component({
   selector: 'app-profile',
@@ -26,7 +55,17 @@ import { environment } from '../../environments/environment';
     MatIconModule,
     MatProgressSpinnerModule,
     MatSnackBarModule,
-    MatDividerModule
+    MatDividerModule,
+    MatProgressBarModule,
+    MatSelectModule,
+    MatAutocompleteModule,
+    FileDropDirective,
+    AvatarComponent,
+    MatDialogModule,
+    TwoFactorSettingsComponent,
+    ChangePasswordComponent,
+    ActiveSessionsComponent,
+    AccountDataComponent
   ],
   template: `
     <div class="profile-container">
@@ -41,37 +80,49 @@ import { environment } from '../../environments/environment';
         <mat-card-content>
           <!-- Profile Picture Section -->
           <div class="profile-picture-section">
-            <div class="current-picture">
-              @if (getProfilePictureUrl()) {
-                <img [src]="getProfilePictureUrl()" alt="Profile Picture" class="profile-picture">
-              } @else {
-                <mat-icon class="default-avatar">account_circle</mat-icon>
-              }
+            <div class="current-picture"
+                 appFileDrop
+                 [appFileDropAccept]="pictureTypes"
+                 [appFileDropPaste]="true"
+                 [appFileDropDisabled]="isLoading || isUploading || isCropping"
+                 (fileDropped)="selectPicture($event)">
+              <app-avatar [user]="user$ | async" [src]="imagePreview" [size]="120" class="profile-picture"></app-avatar>
+              <div class="drop-overlay">
+                <mat-icon>file_upload</mat-icon>
+              </div>
             </div>
             
             <div class="picture-upload">
               <input type="file" 
                      #fileInput 
                      (change)="onFileSelected($event)" 
-                     accept=".jpg,.jpeg,.png"
+                     accept=".jpg,.jpeg,.png,.webp"
                      style="display: none;">
               
               <button type="button" 
                       mat-stroked-button 
                       (click)="fileInput.click()"
-                      [disabled]="isLoading">
+                      [disabled]="isLoading || isUploading">
                 <mat-icon>photo_camera</mat-icon>
                 Choose File
               </button>
               
-              @if (selectedFile) {
+              @if (isUploading) {
+                <div class="upload-progress">
+                  <mat-progress-bar mode="determinate" [value]="uploadProgress"></mat-progress-bar>
+                  <span class="upload-status">{{ uploadStatus }}</span>
+                  <button type="button" mat-stroked-button (click)="cancelUpload()">
+                    <mat-icon>close</mat-icon>
+                    Cancel upload
+                  </button>
+                </div>
+              } @else if (selectedFile) {
                 <button type="button" 
                         mat-raised-button 
                         color="primary"
                         (click)="uploadProfilePicture()"
                         [disabled]="isLoading">
-                  <mat-spinner *ngIf="isLoading" diameter="16" class="upload-spinner"></mat-spinner>
-                  <mat-icon *ngIf="!isLoading">upload</mat-icon>
+                  <mat-icon>upload</mat-icon>
                   Upload Picture
                 </button>
                 
@@ -82,9 +133,18 @@ import { environment } from '../../environments/environment';
                   <mat-icon>close</mat-icon>
                   Cancel
                 </button>
+              } @else if (currentProfilePicture) {
+                <button type="button"
+                        mat-stroked-button
+                        color="warn"
+                        (click)="removeProfilePicture()"
+                        [disabled]="isLoading">
+                  <mat-icon>delete</mat-icon>
+                  Remove picture
+                </button>
               }
               
-              <p class="upload-hint">Supports JPG and PNG (max 5MB)</p>
+              <p class="upload-hint">Drop or paste an image, or choose a file. Supports JPG, PNG and WebP (max 20MB)</p>
             </div>
           </div>
 
@@ -101,18 +161,102 @@ import { environment } from '../../environments/environment';
               <mat-error *ngIf="profileForm.get('email')?.hasError('email')">
                 Please enter a valid email
               </mat-error>
+              <mat-error *ngIf="profileForm.get('email')?.hasError('server')">
+                {{ profileForm.get('email')?.getError('server') }}
+              </mat-error>
+              @if (isChangingEmail()) {
+                <mat-hint>We'll send a confirmation link to the new address</mat-hint>
+              }
             </mat-form-field>
 
+            @if ((user$ | async)?.pendingEmail; as pendingEmail) {
+              <div class="pending-email">
+                <mat-icon>schedule_send</mat-icon>
+                <div class="pending-email-text">
+                  Waiting for you to confirm <strong>{{ pendingEmail }}</strong>.
+                  Until then, keep using {{ (user$ | async)?.email }} to log in.
+                </div>
+                <div class="pending-email-actions">
+                  <button type="button" mat-button color="primary" [disabled]="isUpdatingEmailChange" (click)="resendEmailChange()">
+                    Resend link
+                  </button>
+                  <button type="button" mat-button [disabled]="isUpdatingEmailChange" (click)="cancelEmailChange()">
+                    Cancel change
+                  </button>
+                </div>
+              </div>
+            }
+
             <mat-form-field appearance="outline" class="full-width">
               <mat-label>First Name</mat-label>
               <input matInput formControlName="firstName" class="name-input">
               <mat-icon matSuffix>person</mat-icon>
+              <mat-error *ngIf="profileForm.get('firstName')?.hasError('server')">
+                {{ profileForm.get('firstName')?.getError('server') }}
+              </mat-error>
             </mat-form-field>
 
             <mat-form-field appearance="outline" class="full-width">
               <mat-label>Last Name</mat-label>
               <input matInput formControlName="lastName" class="name-input">
               <mat-icon matSuffix>person</mat-icon>
+              <mat-error *ngIf="profileForm.get('lastName')?.hasError('server')">
+                {{ profileForm.get('lastName')?.getError('server') }}
+              </mat-error>
+            </mat-form-field>
+
+            <mat-form-field appearance="outline" class="full-width">
+              <mat-label>Phone number</mat-label>
+              <input matInput type="tel" formControlName="phoneNumber" autocomplete="tel" (blur)="formatPhoneNumber()">
+              <mat-icon matSuffix>phone</mat-icon>
+              <mat-hint>With country code, e.g. +44 20 7946 0958</mat-hint>
+              <mat-error *ngIf="profileForm.get('phoneNumber')?.hasError('phoneNumber')">
+                Enter a valid number including the country code
+              </mat-error>
+              <mat-error *ngIf="profileForm.get('phoneNumber')?.hasError('server')">
+                {{ profileForm.get('phoneNumber')?.getError('server') }}
+              </mat-error>
+            </mat-form-field>
+
+            <mat-form-field appearance="outline" class="full-width">
+              <mat-label>Bio</mat-label>
+              <textarea matInput formControlName="bio" rows="3" [maxlength]="bioMaxLength"></textarea>
+              <mat-hint align="end">{{ profileForm.get('bio')?.value?.length || 0 }} / {{ bioMaxLength }}</mat-hint>
+              <mat-error *ngIf="profileForm.get('bio')?.hasError('server')">
+                {{ profileForm.get('bio')?.getError('server') }}
+              </mat-error>
+            </mat-form-field>
+
+            <mat-form-field appearance="outline" class="full-width">
+              <mat-label>Language</mat-label>
+              <mat-select formControlName="locale">
+                <mat-option value="">Browser default</mat-option>
+                @for (locale of locales; track locale.code) {
+                  <mat-option [value]="locale.code">{{ locale.label }}</mat-option>
+                }
+              </mat-select>
+              <mat-icon matSuffix>language</mat-icon>
+              <mat-error *ngIf="profileForm.get('locale')?.hasError('server')">
+                {{ profileForm.get('locale')?.getError('server') }}
+              </mat-error>
+            </mat-form-field>
+
+            <mat-form-field appearance="outline" class="full-width">
+              <mat-label>Time zone</mat-label>
+              <input matInput formControlName="timeZone" [matAutocomplete]="timeZoneAutocomplete" [placeholder]="browserTimeZone">
+              <mat-icon matSuffix>schedule</mat-icon>
+              <mat-autocomplete #timeZoneAutocomplete="matAutocomplete">
+                @for (timeZone of filteredTimeZones$ | async; track timeZone) {
+                  <mat-option [value]="timeZone">{{ timeZone.replaceAll('_', ' ') }}</mat-option>
+                }
+              </mat-autocomplete>
+              <mat-hint>Dates in the app are shown in this time zone - leave empty to use your browser's ({{ browserTimeZone }})</mat-hint>
+              <mat-error *ngIf="profileForm.get('timeZone')?.hasError('timeZone')">
+                Pick a time zone from the list
+              </mat-error>
+              <mat-error *ngIf="profileForm.get('timeZone')?.hasError('server')">
+                {{ profileForm.get('timeZone')?.getError('server') }}
+              </mat-error>
             </mat-form-field>
 
             <div class="button-group">
@@ -135,15 +279,26 @@ import { environment } from '../../environments/environment';
               </button>
             </div>
           </form>
+
+          <mat-divider></mat-divider>
+
+          <app-two-factor-settings></app-two-factor-settings>
         </mat-card-content>
       </mat-card>
+
+      <app-change-password></app-change-password>
+
+      <app-active-sessions></app-active-sessions>
+
+      <app-account-data></app-account-data>
     </div>
   `,
   styles: [`
     .profile-container {
       display: flex;
-      justify-content: center;
-      align-items: flex-start;
+      flex-direction: column;
+      align-items: center;
+      gap: 24px;
       min-height: calc(100vh - 64px);
       padding: 40px 20px;
       background-color: #f5f5f5;
@@ -254,24 +409,39 @@ import { environment } from '../../environments/environment';
     }
 
     .current-picture {
+      position: relative;
       display: flex;
       justify-content: center;
       align-items: center;
+      border-radius: 50%;
     }
 
-    .profile-picture {
-      width: 120px;
-      height: 120px;
+    /* Drop zone states from appFileDrop */
+    .drop-overlay {
+      display: none;
+      position: absolute;
+      inset: 0;
+      justify-content: center;
+      align-items: center;
       border-radius: 50%;
-      object-fit: cover;
-      border: 3px solid #e0e0e0;
+      border: 3px dashed #3f51b5;
+      background-color: rgba(63, 81, 181, 0.15);
+      color: #3f51b5;
+      pointer-events: none;
     }
 
-    .default-avatar {
-      font-size: 120px;
-      width: 120px;
-      height: 120px;
-      color: #9e9e9e;
+    .current-picture.file-drop-hover .drop-overlay {
+      display: flex;
+    }
+
+    .current-picture.file-drop-invalid .drop-overlay {
+      border-color: #f44336;
+      background-color: rgba(244, 67, 54, 0.15);
+      color: #f44336;
+    }
+
+    .profile-picture {
+      border: 3px solid #e0e0e0;
     }
 
     .picture-upload {
@@ -287,8 +457,39 @@ import { environment } from '../../environments/environment';
       margin: 0;
     }
 
-    .upload-spinner {
-      margin-right: 8px;
+    .upload-progress {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      width: 100%;
+      max-width: 240px;
+    }
+
+    .upload-status {
+      font-size: 12px;
+      color: #666;
+    }
+
+    .pending-email {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px;
+      padding: 12px;
+      border-radius: 4px;
+      font-size: 14px;
+      color: #e65100;
+      background-color: #fff3e0;
+    }
+
+    .pending-email-text {
+      flex: 1;
+      min-width: 200px;
+    }
+
+    .pending-email-actions {
+      display: flex;
+      gap: 4px;
     }
 
     mat-divider {
@@ -306,20 +507,27 @@ import { environment } from '../../environments/environment';
       .picture-upload {
         align-items: center;
       }
-
-      .profile-picture, .default-avatar {
-        width: 100px;
-        height: 100px;
-        font-size: 100px;
-      }
     }
   `]
 })
-export class ProfileComponent implements OnInit {
+export class ProfileComponent implements OnInit, OnDestroy, HasUnsavedChanges {
   profileForm: FormGroup;
+  user$: Observable<User | null>;
+  filteredTimeZones$: Observable<string[]>;
+  readonly locales = SUPPORTED_LOCALES;
+  readonly browserTimeZone = getBrowserTimeZone();
+  readonly bioMaxLength = BIO_MAX_LENGTH;
   isLoading = false;
+  isUpdatingEmailChange = false;
   selectedFile: File | null = null;
   imagePreview: string | null = null;
+  // Upload state - unsubscribing from uploadSubscription aborts the request
+  isUploading = false;
+  isCropping = false;
+  readonly pictureTypes = PICTURE_TYPES;
+  uploadProgress = 0;
+  uploadStatus = '';
+  private uploadSubscription?: Subscription;
   currentProfilePicture: string | null = null;
 
   constructor(
@@ -327,34 +535,41 @@ export class ProfileComponent implements OnInit {
     private userService: UserService,
     private authService: AuthService,
     private router: Router,
-    private snackBar: MatSnackBar
+    private snackBar: MatSnackBar,
+    private dialog: MatDialog
   ) {
+    this.user$ = this.authService.user$;
     this.profileForm = this.fb.group({
       email: ['', [Validators.required, Validators.email]],
       firstName: [''],
-      lastName: ['']
+      lastName: [''],
+      phoneNumber: ['', phoneNumberValidator()],
+      bio: ['', Validators.maxLength(BIO_MAX_LENGTH)],
+      locale: [''],
+      timeZone: ['', timeZoneValidator]
     });
+
+    // Type to search, e.g. "berlin" or "new york"
+    this.filteredTimeZones$ = this.profileForm.get('timeZone')!.valueChanges.pipe(
+      startWith(''),
+      map(value => {
+        const search = (value || '').toLowerCase().replace(/\s+/g, '_');
+        return getTimeZones().filter(timeZone => timeZone.toLowerCase().includes(search)).slice(0, 50);
+      })
+    );
   }
 
   ngOnInit() {
     // Load current user data from auth service (already cached)
     const currentUser = this.authService.getUser();
     if (currentUser) {
-      this.profileForm.patchValue({
-        email: currentUser.email || '',
-        firstName: currentUser.firstName || '',
-        lastName: currentUser.lastName || ''
-      });
+      this.fillForm(currentUser);
       this.currentProfilePicture = currentUser.profilePicture || null;
     } else {
       // Fallback: fetch from API if not in cache
       this.authService.getCurrentUser().subscribe({
         next: (user) => {
-          this.profileForm.patchValue({
-            email: user.email || '',
-            firstName: user.firstName || '',
-            lastName: user.lastName || ''
-          });
+          this.fillForm(user);
           this.currentProfilePicture = user.profilePicture || null;
         },
         error: (error) => {
@@ -374,71 +589,137 @@ export class ProfileComponent implements OnInit {
       const profileData = {
         ...this.profileForm.value,
         firstName: capitalizeNames(this.profileForm.value.firstName || ''),
-        lastName: capitalizeNames(this.profileForm.value.lastName || '')
+        lastName: capitalizeNames(this.profileForm.value.lastName || ''),
+        // The validator already made sure this isn't null
+        phoneNumber: normalizePhoneNumber(this.profileForm.value.phoneNumber) || '',
+        bio: (this.profileForm.value.bio || '').trim()
       };
       
       this.userService.updateProfile(profileData).subscribe({
         next: (response) => {
           this.isLoading = false;
+          // Saved - leaving the page is fine now
+          this.profileForm.markAsPristine();
           
           this.snackBar.open(response.message, 'Close', {
             duration: 3000
           });
           
-          if (response.requireReLogin) {
-            // If email changed, redirect to login
-            setTimeout(() => {
-              this.router.navigate(['/login']);
-            }, 2000);
+          // Update AuthService with the new user data from response
+          if (response.user) {
+            // Merge so roles and 2FA state (not part of this response) are kept
+            this.authService.updateUserData({ ...this.authService.getUser(), ...response.user });
+          }
+
+          if (response.user?.pendingEmail && response.user.pendingEmail === profileData.email) {
+            // The old address stays until the link is clicked - stay here to show the pending change
+            this.profileForm.patchValue({ email: response.user.email || '' });
+            this.profileForm.markAsPristine();
           } else {
-            // Update AuthService with the new user data from response
-            if (response.user) {
-              // Directly update the AuthService with the new user data
-              this.authService.updateUserData(response.user);
-            }
             this.goBack();
           }
         },
         error: (error) => {
           this.isLoading = false;
-          const message = error.error?.message || 'Failed to update profile. Please try again.';
-          this.snackBar.open(message, 'Close', {
-            duration: 3000
-          });
+          const apiError = parseApiError(error, 'Failed to update profile. Please try again.');
+          const message = applyApiErrorToForm(this.profileForm, apiError);
+          if (message) {
+            this.snackBar.open(message, 'Close', {
+              duration: 3000
+            });
+          }
         }
       });
     }
   }
 
+  private fillForm(user: User) {
+    this.profileForm.patchValue({
+      email: user.email || '',
+      firstName: user.firstName || '',
+      lastName: user.lastName || '',
+      phoneNumber: user.phoneNumber || '',
+      bio: user.bio || '',
+      // Empty until the user picks one - the browser's settings are used meanwhile
+      locale: user.locale || '',
+      timeZone: user.timeZone || ''
+    });
+  }
+
+  // Show the number the way it will be saved
+  formatPhoneNumber() {
+    const control = this.profileForm.get('phoneNumber')!;
+    const normalized = normalizePhoneNumber(control.value);
+    if (normalized && normalized !== control.value) {
+      control.setValue(normalized);
+    }
+  }
+
   onFileSelected(event: any) {
     const file = event.target.files[0];
-    
+    // Allow picking the same file again after cancelling the crop dialog
+    event.target.value = '';
+    this.selectPicture(file);
+  }
+
+  // Shared by the file input, drag and drop and paste (appFileDrop)
+  selectPicture(file: File | undefined) {
     if (file) {
       // Validate file type
-      if (!file.type.match('image/(jpeg|jpg|png)')) {
-        this.snackBar.open('Only JPG and PNG files are allowed', 'Close', {
+      if (!PICTURE_TYPES.includes(file.type)) {
+        this.snackBar.open('Only JPG, PNG and WebP files are allowed', 'Close', {
           duration: 3000
         });
         return;
       }
 
-      // Validate file size (5MB)
-      if (file.size > 5 * 1024 * 1024) {
-        this.snackBar.open('File size cannot exceed 5MB', 'Close', {
+      // Validate file size (20MB)
+      if (file.size > MAX_PICTURE_SIZE) {
+        this.snackBar.open('File size cannot exceed 20MB', 'Close', {
           duration: 3000
         });
         return;
       }
 
-      this.selectedFile = file;
+      this.openCropDialog(file);
+    }
+  }
+
+  // Crop, rotate and downscale before anything is uploaded
+  private openCropDialog(file: File) {
+    this.isCropping = true;
+    this.dialog.open<AvatarCropDialogComponent, AvatarCropDialogData, Blob>(AvatarCropDialogComponent, {
+      data: { file },
+      width: '400px'
+    }).afterClosed().subscribe(blob => {
+      this.isCropping = false;
+      if (!blob) {
+        return;
+      }
+      const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+      this.selectedFile = new File([blob], `profile-picture.${extension}`, { type: blob.type });
 
       // Create preview
       const reader = new FileReader();
       reader.onload = (e: any) => {
         this.imagePreview = e.target.result;
       };
-      reader.readAsDataURL(file);
-    }
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  ngOnDestroy() {
+    this.uploadSubscription?.unsubscribe();
+  }
+
+  // Edited fields or a cropped picture that hasn't been uploaded yet
+  hasUnsavedChanges(): boolean {
+    return this.profileForm.dirty || !!this.selectedFile;
+  }
+
+  @HostListener('window:beforeunload', ['$event'])
+  onBeforeUnload(event: BeforeUnloadEvent) {
+    warnBeforeUnload(event, this);
   }
 
   uploadProfilePicture() {
@@ -446,10 +727,24 @@ export class ProfileComponent implements OnInit {
       return;
     }
     
-    this.isLoading = true;
-    this.userService.uploadProfilePicture(this.selectedFile).subscribe({
-      next: (response) => {
-        this.isLoading = false;
+    this.isUploading = true;
+    this.uploadProgress = 0;
+    this.uploadStatus = 'Uploading... 0%';
+    this.uploadSubscription = this.userService.uploadProfilePicture(this.selectedFile).subscribe({
+      next: (event) => {
+        if (event.type === 'progress') {
+          this.uploadProgress = event.percent;
+          this.uploadStatus = `Uploading... ${event.percent}%`;
+          return;
+        }
+        if (event.type === 'retrying') {
+          this.uploadProgress = 0;
+          this.uploadStatus = `Connection problem - retrying in ${event.delayMs / 1000}s (attempt ${event.attempt})`;
+          return;
+        }
+
+        const response = event.response;
+        this.isUploading = false;
         this.currentProfilePicture = response.profilePicture;
         this.imagePreview = null;
         this.selectedFile = null;
@@ -468,8 +763,8 @@ export class ProfileComponent implements OnInit {
         });
       },
       error: (error) => {
-        this.isLoading = false;
-        const message = error.error?.message || 'Failed to upload profile picture';
+        this.isUploading = false;
+        const message = parseApiError(error, 'Failed to upload profile picture').message;
         this.snackBar.open(message, 'Close', {
           duration: 3000
         });
@@ -477,18 +772,102 @@ export class ProfileComponent implements OnInit {
     });
   }
 
+  // Aborts the request - the chosen picture stays so the user can try again
+  cancelUpload() {
+    this.uploadSubscription?.unsubscribe();
+    this.isUploading = false;
+    this.snackBar.open('Upload cancelled', 'Close', {
+      duration: 3000
+    });
+  }
+
   removePreview() {
     this.selectedFile = null;
     this.imagePreview = null;
   }
 
-  getProfilePictureUrl() {
-    if (this.imagePreview) return this.imagePreview;
-    if (this.currentProfilePicture) {
-      const url = `${environment.apiURL}${this.currentProfilePicture}`;
-      return url;
-    }
-    return null;
+  // Back to the initials avatar
+  removeProfilePicture() {
+    this.isLoading = true;
+    this.userService.removeProfilePicture().subscribe({
+      next: (response) => {
+        this.isLoading = false;
+        this.currentProfilePicture = null;
+
+        const currentUser = this.authService.getUser();
+        if (currentUser) {
+          this.authService.updateUserData({
+            ...currentUser,
+            profilePicture: undefined
+          });
+        }
+
+        this.snackBar.open(response.message, 'Close', {
+          duration: 3000
+        });
+      },
+      error: (error) => {
+        this.isLoading = false;
+        const message = parseApiError(error, 'Failed to remove profile picture').message;
+        this.snackBar.open(message, 'Close', {
+          duration: 3000
+        });
+      }
+    });
+  }
+
+  // True while the email field holds a different address than the account's
+  isChangingEmail(): boolean {
+    const email: string = this.profileForm.get('email')?.value || '';
+    const currentEmail = this.authService.getUser()?.email || '';
+    return !!email && email.toLowerCase() !== currentEmail.toLowerCase();
+  }
+
+  resendEmailChange() {
+    this.isUpdatingEmailChange = true;
+    this.userService.resendEmailChange().subscribe({
+      next: (response) => {
+        this.isUpdatingEmailChange = false;
+        this.snackBar.open(response.message, 'Close', {
+          duration: 3000
+        });
+      },
+      error: (error) => {
+        this.isUpdatingEmailChange = false;
+        const message = parseApiError(error, 'Failed to resend the confirmation link').message;
+        this.snackBar.open(message, 'Close', {
+          duration: 3000
+        });
+      }
+    });
+  }
+
+  cancelEmailChange() {
+    this.isUpdatingEmailChange = true;
+    this.userService.cancelEmailChange().subscribe({
+      next: (response) => {
+        this.isUpdatingEmailChange = false;
+
+        const currentUser = this.authService.getUser();
+        if (currentUser) {
+          this.authService.updateUserData({
+            ...currentUser,
+            pendingEmail: undefined
+          });
+        }
+
+        this.snackBar.open(response.message, 'Close', {
+          duration: 3000
+        });
+      },
+      error: (error) => {
+        this.isUpdatingEmailChange = false;
+        const message = parseApiError(error, 'Failed to cancel the email change').message;
+        this.snackBar.open(message, 'Close', {
+          duration: 3000
+        });
+      }
+    });
   }
 
   goBack() {
@@ -0,0 +1,329 @@
+import { Component, OnInit } from '@angular/core';
+import { FormControl, Validators, ReactiveFormsModule } from '@angular/forms';
+import { CommonModule } from '@angular/common';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+import { toDataURL } from 'qrcode';
+import { UserService } from '../../services/user.service';
+import { AuthService } from '../../auth/auth.service';
+import { downloadFile } from '../../utils/download-file';
+import { parseApiError } from '../../utils/api-error';
+
+// 'idle': nothing in progress, 'enrolling': QR code shown, 'recovery': show the recovery codes once
+type TwoFactorStep = 'idle' | 'enrolling' | 'recovery';
+
+@Component({
+  selector: 'app-two-factor-settings',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatInputModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule
+  ],
+  template: `
+    <div class="two-factor-section">
+      <h3 class="section-title">
+        <mat-icon>security</mat-icon>
+        Two-factor authentication
+      </h3>
+
+      @switch (step) {
+        @case ('enrolling') {
+          <p class="hint">Scan this QR code with your authenticator app, then enter the 6-digit code it shows.</p>
+          <div class="enrollment">
+            @if (qrCodeDataUrl) {
+              <img [src]="qrCodeDataUrl" alt="Two-factor QR code" class="qr-code">
+            }
+            <div class="enrollment-form">
+              <p class="secret">Can't scan? Enter this key manually: <code>{{ secret }}</code></p>
+              <mat-form-field appearance="outline" class="code-field">
+                <mat-label>Verification code</mat-label>
+                <input matInput [formControl]="codeControl" inputmode="numeric" autocomplete="one-time-code" maxlength="6">
+                <mat-error *ngIf="codeControl.hasError('pattern')">Enter the 6 digits from your app</mat-error>
+              </mat-form-field>
+              <div class="actions">
+                <button type="button" mat-stroked-button (click)="cancelSetup()" [disabled]="isLoading">
+                  Cancel
+                </button>
+                <button type="button" mat-raised-button color="primary" (click)="confirmSetup()" [disabled]="codeControl.invalid || isLoading">
+                  <mat-spinner *ngIf="isLoading" diameter="16" class="button-spinner"></mat-spinner>
+                  Verify & Enable
+                </button>
+              </div>
+            </div>
+          </div>
+        }
+        @case ('recovery') {
+          <p class="hint">
+            Two-factor authentication is on. Save these recovery codes somewhere safe -
+            each one can be used once if you lose access to your authenticator app.
+          </p>
+          <ul class="recovery-codes">
+            @for (code of recoveryCodes; track code) {
+              <li><code>{{ code }}</code></li>
+            }
+          </ul>
+          <div class="actions">
+            <button type="button" mat-stroked-button (click)="downloadRecoveryCodes()">
+              <mat-icon>download</mat-icon>
+              Download codes
+            </button>
+            <button type="button" mat-raised-button color="primary" (click)="finishSetup()">
+              I've saved them
+            </button>
+          </div>
+        }
+        @default {
+          @if (isEnabled) {
+            <p class="status enabled">
+              <mat-icon>verified_user</mat-icon>
+              Enabled - you'll need a code from your authenticator app when logging in.
+            </p>
+            <div class="disable-form">
+              <mat-form-field appearance="outline" class="password-field">
+                <mat-label>Current password</mat-label>
+                <input matInput type="password" [formControl]="passwordControl" autocomplete="current-password">
+              </mat-form-field>
+              <button type="button" mat-stroked-button color="warn" (click)="disable()" [disabled]="passwordControl.invalid || isLoading">
+                <mat-spinner *ngIf="isLoading" diameter="16" class="button-spinner"></mat-spinner>
+                Disable 2FA
+              </button>
+            </div>
+          } @else {
+            <p class="status">Add an extra layer of security with an authenticator app.</p>
+            <button type="button" mat-stroked-button color="primary" (click)="startSetup()" [disabled]="isLoading">
+              <mat-spinner *ngIf="isLoading" diameter="16" class="button-spinner"></mat-spinner>
+              <mat-icon *ngIf="!isLoading">phonelink_lock</mat-icon>
+              Enable 2FA
+            </button>
+          }
+        }
+      }
+    </div>
+  `,
+  styles: [`
+    .two-factor-section {
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+    }
+
+    .section-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin: 0;
+      font-size: 18px;
+      font-weight: 500;
+    }
+
+    .hint, .status {
+      margin: 0;
+      color: rgba(0, 0, 0, 0.6);
+      font-size: 14px;
+    }
+
+    .status.enabled {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      color: #4caf50;
+    }
+
+    .enrollment {
+      display: flex;
+      gap: 24px;
+      align-items: flex-start;
+    }
+
+    .qr-code {
+      width: 180px;
+      height: 180px;
+      border: 1px solid #e0e0e0;
+      border-radius: 8px;
+    }
+
+    .enrollment-form {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      flex: 1;
+    }
+
+    .secret code {
+      word-break: break-all;
+    }
+
+    .recovery-codes {
+      display: grid;
+      grid-template-columns: repeat(2, minmax(0, 1fr));
+      gap: 8px;
+      padding: 12px 16px;
+      margin: 0;
+      list-style: none;
+      background-color: #f5f5f5;
+      border-radius: 4px;
+    }
+
+    .actions, .disable-form {
+      display: flex;
+      gap: 12px;
+      align-items: center;
+      flex-wrap: wrap;
+    }
+
+    .button-spinner {
+      display: inline-block;
+      margin-right: 8px;
+    }
+
+    @media (max-width: 600px) {
+      .enrollment {
+        flex-direction: column;
+        align-items: center;
+      }
+    }
+  `]
+})
+export class TwoFactorSettingsComponent implements OnInit {
+  step: TwoFactorStep = 'idle';
+  isEnabled = false;
+  isLoading = false;
+  qrCodeDataUrl: string | null = null;
+  secret = '';
+  recoveryCodes: string[] = [];
+
+  codeControl = new FormControl('', [Validators.required, Validators.pattern(/^\d{6}$/)]);
+  passwordControl = new FormControl('', Validators.required);
+
+  constructor(
+    private userService: UserService,
+    private authService: AuthService,
+    private snackBar: MatSnackBar
+  ) { }
+
+  ngOnInit() {
+    this.isEnabled = !!this.authService.getUser()?.twoFactorEnabled;
+  }
+
+  startSetup() {
+    this.isLoading = true;
+    this.userService.startTwoFactorSetup().subscribe({
+      next: (response) => {
+        this.secret = response.secret;
+        // The QR code is drawn in the browser - the secret never goes to a third-party service
+        toDataURL(response.otpauthUri, { width: 180, margin: 1 })
+          .then(dataUrl => {
+            this.qrCodeDataUrl = dataUrl;
+            this.isLoading = false;
+            this.step = 'enrolling';
+          })
+          .catch(() => {
+            this.isLoading = false;
+            this.snackBar.open('Could not create the QR code', 'Close', {
+              duration: 3000
+            });
+          });
+      },
+      error: (error) => {
+        this.isLoading = false;
+        const message = parseApiError(error, 'Failed to start two-factor setup').message;
+        this.snackBar.open(message, 'Close', {
+          duration: 3000
+        });
+      }
+    });
+  }
+
+  confirmSetup() {
+    if (this.codeControl.invalid) {
+      return;
+    }
+
+    this.isLoading = true;
+    this.userService.confirmTwoFactorSetup(this.codeControl.value!).subscribe({
+      next: (response) => {
+        this.isLoading = false;
+        this.recoveryCodes = response.recoveryCodes;
+        this.isEnabled = true;
+        this.step = 'recovery';
+        this.updateUserTwoFactor(true);
+      },
+      error: (error) => {
+        this.isLoading = false;
+        const message = parseApiError(error, 'That code did not match. Please try again.').message;
+        this.snackBar.open(message, 'Close', {
+          duration: 3000
+        });
+      }
+    });
+  }
+
+  cancelSetup() {
+    this.resetSetup();
+  }
+
+  finishSetup() {
+    this.resetSetup();
+  }
+
+  downloadRecoveryCodes() {
+    const content = [
+      'Recovery codes - each code can be used once.',
+      '',
+      ...this.recoveryCodes
+    ].join('\n');
+    downloadFile(new Blob([content], { type: 'text/plain' }), 'recovery-codes.txt');
+  }
+
+  disable() {
+    if (this.passwordControl.invalid) {
+      return;
+    }
+
+    this.isLoading = true;
+    this.userService.disableTwoFactor(this.passwordControl.value!).subscribe({
+      next: (response) => {
+        this.isLoading = false;
+        this.isEnabled = false;
+        this.passwordControl.reset();
+        this.updateUserTwoFactor(false);
+        this.snackBar.open(response.message, 'Close', {
+          duration: 3000
+        });
+      },
+      error: (error) => {
+        this.isLoading = false;
+        const message = parseApiError(error, 'Failed to disable two-factor authentication').message;
+        this.snackBar.open(message, 'Close', {
+          duration: 3000
+        });
+      }
+    });
+  }
+
+  private resetSetup() {
+    this.step = 'idle';
+    this.qrCodeDataUrl = null;
+    this.secret = '';
+    this.recoveryCodes = [];
+    this.codeControl.reset();
+  }
+
+  private updateUserTwoFactor(enabled: boolean) {
+    const currentUser = this.authService.getUser();
+    if (currentUser) {
+      this.authService.updateUserData({
+        ...currentUser,
+        twoFactorEnabled: enabled
+      });
+    }
+  }
+}
\ No newline at end of file
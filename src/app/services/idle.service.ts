@@ -0,0 +1,100 @@
+import { Injectable, NgZone, inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { MatDialog } from '@angular/material/dialog';
+import { EMPTY, Observable, Subscription, fromEvent, merge, timer } from 'rxjs';
+import { distinctUntilChanged, exhaustMap, filter, map, startWith, switchMap, throttleTime } from 'rxjs/operators';
+import { AuthService } from '../auth/auth.service';
+import { AuthChannel } from '../auth/auth-channel';
+import {
+  IdleWarningDialogComponent,
+  IdleWarningDialogData,
+  IdleWarningResult
+} from '../auth/idle-warning-dialog/idle-warning-dialog.component';
+import { environment } from '../../environments/environment';
+
+// Anything the user does that counts as "still here"
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart', 'wheel'];
+
+// Tell the other tabs at most this often that the user is still here
+const ACTIVITY_BROADCAST_MS = 5000;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class IdleService {
+  private authService = inject(AuthService);
+  private router = inject(Router);
+  private dialog = inject(MatDialog);
+  private zone = inject(NgZone);
+  private channel = inject(AuthChannel);
+
+  // Activity in another tab keeps this one signed in too - logout() ends the session everywhere
+  private otherTabsActivity$ = this.channel.messages$.pipe(filter(message => message.type === 'activity'));
+
+  private timeoutMs = environment.idle.timeoutSeconds * 1000;
+  private warningSeconds = environment.idle.warningSeconds;
+  private started = false;
+
+  // Start watching - only counts while a user is logged in
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    this.authService.authStatus$.pipe(
+      map(status => status === 'authenticated'),
+      distinctUntilChanged(),
+      switchMap(isAuthenticated => isAuthenticated ? this.whenIdle() : EMPTY),
+      // Ignore further idle timeouts while the dialog is already open
+      exhaustMap(() => this.zone.run(() => this.showWarning()))
+    ).subscribe(result => {
+      if (result === 'logout' || result === 'timeout') {
+        this.logout(result === 'timeout');
+      }
+    });
+  }
+
+  // Emits each time the user has been inactive - in every open tab - for the configured time
+  // Listeners run outside Angular so mouse moves don't trigger change detection
+  private whenIdle(): Observable<void> {
+    return new Observable<void>(subscriber => {
+      const activity$ = merge(...ACTIVITY_EVENTS.map(event => fromEvent(document, event, { passive: true })));
+      const subscription = new Subscription();
+      this.zone.runOutsideAngular(() => {
+        subscription.add(activity$.pipe(
+          throttleTime(ACTIVITY_BROADCAST_MS)
+        ).subscribe(() => this.channel.post({ type: 'activity' })));
+
+        subscription.add(merge(activity$, this.otherTabsActivity$).pipe(
+          startWith(null),
+          switchMap(() => timer(this.timeoutMs))
+        ).subscribe(() => subscriber.next()));
+      });
+      return () => subscription.unsubscribe();
+    });
+  }
+
+  private showWarning(): Observable<IdleWarningResult | undefined> {
+    const dialogRef = this.dialog.open<IdleWarningDialogComponent, IdleWarningDialogData, IdleWarningResult>(
+      IdleWarningDialogComponent,
+      {
+        data: { warningSeconds: this.warningSeconds },
+        disableClose: true,
+        width: '400px'
+      }
+    );
+    // The user came back in another tab - don't log them out from here
+    const otherTabs = this.otherTabsActivity$.subscribe(() => dialogRef.close('stay'));
+    dialogRef.afterClosed().subscribe(() => otherTabs.unsubscribe());
+    return dialogRef.afterClosed();
+  }
+
+  private logout(timedOut: boolean): void {
+    this.authService.logout().subscribe(() => {
+      this.router.navigate(['/login'], {
+        queryParams: timedOut ? { reason: 'idle' } : {}
+      });
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HttpErrorResponse } from '@angular/common/http';
+
+import { UserService, UploadProfilePictureEvent } from './user.service';
+import { provideFakeBackend } from '../fake-backend/provide-fake-backend';
+import { FakeBackend } from '../fake-backend/fake-backend.service';
+
+describe('UserService', () => {
+  let service: UserService;
+  let backend: FakeBackend;
+  const file = new File(['fake image'], 'avatar.webp', { type: 'image/webp' });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideFakeBackend()] });
+    service = TestBed.inject(UserService);
+    backend = TestBed.inject(FakeBackend);
+    backend.db.state.currentUserId = backend.db.state.users[0].id;
+  });
+
+  it('should retry uploads after transient failures with backoff', fakeAsync(() => {
+    backend.failNext('POST', '/api/auth/upload-profile-picture', 503);
+    backend.failNext('POST', '/api/auth/upload-profile-picture', 0);
+    backend.failNext('POST', '/api/auth/upload-profile-picture', 400);
+    const events: UploadProfilePictureEvent[] = [];
+    let error: HttpErrorResponse | undefined;
+    service.uploadProfilePicture(file).subscribe({ next: event => events.push(event), error: e => error = e });
+
+    expect(events).toEqual([{ type: 'retrying', attempt: 1, delayMs: 1000 }]);
+    tick(1000);
+    expect(events[1]).toEqual({ type: 'retrying', attempt: 2, delayMs: 2000 });
+    expect(error).toBeUndefined();
+    tick(2000);
+    expect(error?.status).toBe(400);
+  }));
+
+  it('should not retry client errors', () => {
+    backend.failNext('POST', '/api/auth/upload-profile-picture', 400, undefined, 'Not an image');
+    let error: HttpErrorResponse | undefined;
+    service.uploadProfilePicture(file).subscribe({ error: e => error = e });
+
+    expect(error?.status).toBe(400);
+  });
+});
@@ -1,22 +1,32 @@
 import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable } from 'rxjs';
+import { HttpClient, HttpEvent, HttpEventType } from '@angular/common/http';
+import { Observable, concat, of, throwError, timer } from 'rxjs';
+import { catchError, filter, map, switchMap } from 'rxjs/operators';
 import { environment } from '../../environments/environment';
+import { isTransientError } from '../utils/api-error';
 
 export interface UpdateProfileRequest {
   email: string;
   firstName?: string;
   lastName?: string;
+  phoneNumber?: string;    // E.164 or '' to remove it
+  bio?: string;
+  locale?: string;         // '' = use the browser's language
+  timeZone?: string;       // '' = use the browser's time zone
 }
 
 export interface UpdateProfileResponse {
   message: string;
-  requireReLogin?: boolean;
   user?: {
-    email?: string;
+    email?: string;          // Still the old address while a change is pending
+    pendingEmail?: string;   // Set when the request asked for a new address
     firstName?: string;
     lastName?: string;
     profilePicture?: string;
+    phoneNumber?: string;
+    bio?: string;
+    locale?: string;
+    timeZone?: string;
   };
 }
 
@@ -25,6 +35,48 @@ export interface UploadProfilePictureResponse {
   profilePicture: string;
 }
 
+// What uploadProfilePicture() reports while it runs
+export type UploadProfilePictureEvent =
+  | { type: 'progress'; percent: number }
+  | { type: 'retrying'; attempt: number; delayMs: number }
+  | { type: 'done'; response: UploadProfilePictureResponse };
+
+// Retries after 1s, 2s and 4s - then the error reaches the caller
+const UPLOAD_MAX_RETRIES = 3;
+const UPLOAD_RETRY_BASE_DELAY_MS = 1000;
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+  signOutOtherSessions?: boolean;
+}
+
+// Error code the backend sends (400) when the current password doesn't match
+export const INVALID_CURRENT_PASSWORD_CODE = 'InvalidCurrentPassword';
+
+export interface UserSession {
+  id: string;
+  device: string;          // e.g. "Windows PC", "iPhone"
+  browser: string;         // e.g. "Chrome 126"
+  location?: string;       // Approximate, from the IP address
+  lastSeenAt: string;      // ISO date
+  isCurrent: boolean;      // true for the session this tab is using
+}
+
+export interface DeleteAccountRequest {
+  password: string;
+}
+
+export interface TwoFactorSetupResponse {
+  otpauthUri: string;
+  secret: string;
+}
+
+export interface TwoFactorConfirmResponse {
+  message: string;
+  recoveryCodes: string[];
+}
+
 @Injectable({
   providedIn: 'root'
 })
@@ -34,19 +86,95 @@ export class UserService {
   constructor(private http: HttpClient) { }
 
   updateProfile(profileData: UpdateProfileRequest): Observable<UpdateProfileResponse> {
-    return this.http.put<UpdateProfileResponse>(`${this.apiUrl}/api/auth/profile`, profileData, {
-      withCredentials: true
-    });
+    return this.http.put<UpdateProfileResponse>(`${this.apiUrl}/api/auth/profile`, profileData);
   }
 
-  uploadProfilePicture(file: File): Observable<UploadProfilePictureResponse> {
+  // Reports progress and retries transient failures (flaky mobile connections)
+  // Unsubscribing cancels the upload
+  uploadProfilePicture(file: File): Observable<UploadProfilePictureEvent> {
     const formData = new FormData();
     formData.append('file', file);
     
+    return this.uploadWithRetry(formData, 0);
+  }
+
+  private uploadWithRetry(formData: FormData, retries: number): Observable<UploadProfilePictureEvent> {
     const uploadUrl = `${this.apiUrl}/api/auth/upload-profile-picture`;
-    
-    return this.http.post<UploadProfilePictureResponse>(uploadUrl, formData, {
-      withCredentials: true
-    });
+
+    return this.http.post<UploadProfilePictureResponse>(uploadUrl, formData, { reportProgress: true, observe: 'events' }).pipe(
+      map(event => this.toUploadEvent(event)),
+      filter((event): event is UploadProfilePictureEvent => event !== null),
+      catchError(error => {
+        if (retries >= UPLOAD_MAX_RETRIES || !isTransientError(error)) {
+          return throwError(() => error);
+        }
+        const delayMs = UPLOAD_RETRY_BASE_DELAY_MS * 2 ** retries;
+        return concat(
+          of<UploadProfilePictureEvent>({ type: 'retrying', attempt: retries + 1, delayMs }),
+          timer(delayMs).pipe(switchMap(() => this.uploadWithRetry(formData, retries + 1)))
+        );
+      })
+    );
+  }
+
+  private toUploadEvent(event: HttpEvent<UploadProfilePictureResponse>): UploadProfilePictureEvent | null {
+    if (event.type === HttpEventType.UploadProgress) {
+      return { type: 'progress', percent: event.total ? Math.round((event.loaded / event.total) * 100) : 0 };
+    }
+    if (event.type === HttpEventType.Response) {
+      return { type: 'done', response: event.body! };
+    }
+    return null;
+  }
+
+  removeProfilePicture(): Observable<{ message: string }> {
+    return this.http.delete<{ message: string }>(`${this.apiUrl}/api/auth/profile-picture`);
+  }
+
+  // Send the confirmation link for the pending address again
+  resendEmailChange(): Observable<{ message: string }> {
+    return this.http.post<{ message: string }>(`${this.apiUrl}/api/auth/email-change/resend`, {});
+  }
+
+  // Drop the pending address - the current one stays as it is
+  cancelEmailChange(): Observable<{ message: string }> {
+    return this.http.delete<{ message: string }>(`${this.apiUrl}/api/auth/email-change`);
+  }
+
+  changePassword(passwordData: ChangePasswordRequest): Observable<{ message: string }> {
+    return this.http.put<{ message: string }>(`${this.apiUrl}/api/auth/change-password`, passwordData);
+  }
+
+  getSessions(): Observable<UserSession[]> {
+    return this.http.get<UserSession[]>(`${this.apiUrl}/api/auth/sessions`);
+  }
+
+  revokeSession(sessionId: string): Observable<{ message: string }> {
+    return this.http.delete<{ message: string }>(`${this.apiUrl}/api/auth/sessions/${sessionId}`);
+  }
+
+  revokeOtherSessions(): Observable<{ message: string }> {
+    return this.http.post<{ message: string }>(`${this.apiUrl}/api/auth/sessions/revoke-others`, {});
+  }
+
+  // Everything we store about the user, as a JSON file
+  exportData(): Observable<Blob> {
+    return this.http.get(`${this.apiUrl}/api/auth/export`, { responseType: 'blob' });
+  }
+
+  deleteAccount(deleteData: DeleteAccountRequest): Observable<{ message: string }> {
+    return this.http.delete<{ message: string }>(`${this.apiUrl}/api/auth/account`, { body: deleteData });
+  }
+
+  startTwoFactorSetup(): Observable<TwoFactorSetupResponse> {
+    return this.http.post<TwoFactorSetupResponse>(`${this.apiUrl}/api/auth/2fa/setup`, {});
+  }
+
+  confirmTwoFactorSetup(code: string): Observable<TwoFactorConfirmResponse> {
+    return this.http.post<TwoFactorConfirmResponse>(`${this.apiUrl}/api/auth/2fa/confirm`, { code });
+  }
+
+  disableTwoFactor(password: string): Observable<{ message: string }> {
+    return this.http.post<{ message: string }>(`${this.apiUrl}/api/auth/2fa/disable`, { password });
   }
 }
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { Component } from '@angular/core';
+import { MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+
+// Closes with true when the user chose to leave and lose their changes
+@Component({
+  selector: 'app-discard-changes-dialog',
+  standalone: true,
+  imports: [MatDialogModule, MatButtonModule, MatIconModule],
+  template: `
+    <h2 mat-dialog-title class="dialog-title">
+      <mat-icon>edit_off</mat-icon>
+      Discard changes?
+    </h2>
+    <mat-dialog-content>
+      <p>You have unsaved changes on this page. If you leave now, they will be lost.</p>
+    </mat-dialog-content>
+    <mat-dialog-actions align="end">
+      <button mat-button [mat-dialog-close]="true">Discard</button>
+      <button mat-raised-button color="primary" [mat-dialog-close]="false" cdkFocusInitial>Keep editing</button>
+    </mat-dialog-actions>
+  `,
+  styles: [`
+    .dialog-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+  `]
+})
+export class DiscardChangesDialogComponent { }
\ No newline at end of file
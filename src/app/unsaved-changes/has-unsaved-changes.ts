@@ -0,0 +1,19 @@
+/**
+ * Contract for pages with forms that shouldn't be left by accident
+ * Used by unsavedChangesGuard (in-app navigation) and warnBeforeUnload (tab close, reload)
+ */
+
+export interface HasUnsavedChanges {
+  // true while there is something the user would lose by leaving
+  hasUnsavedChanges(): boolean;
+}
+
+// Call from a component's @HostListener('window:beforeunload', ['$event'])
+// Browsers show their own generic "Leave site?" prompt - the text can't be customised
+export function warnBeforeUnload(event: BeforeUnloadEvent, component: HasUnsavedChanges): void {
+  if (component.hasUnsavedChanges()) {
+    event.preventDefault();
+    // Older browsers only prompt when returnValue is set
+    event.returnValue = '';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRouteSnapshot, RouterStateSnapshot } from '@angular/router';
+import { MatDialog, MatDialogRef } from '@angular/material/dialog';
+import { Observable, of } from 'rxjs';
+
+import { unsavedChangesGuard } from './unsaved-changes.guard';
+import { HasUnsavedChanges } from './has-unsaved-changes';
+import { DiscardChangesDialogComponent } from './discard-changes-dialog.component';
+import { AuthService } from '../auth/auth.service';
+
+describe('unsavedChangesGuard', () => {
+  let dialog: jasmine.SpyObj<MatDialog>;
+  let authenticated: boolean;
+
+  beforeEach(() => {
+    authenticated = true;
+    dialog = jasmine.createSpyObj<MatDialog>('MatDialog', ['open']);
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: AuthService, useValue: { isAuthenticated: () => authenticated } },
+        { provide: MatDialog, useValue: dialog }
+      ]
+    });
+  });
+
+  function runGuard(dirty: boolean) {
+    const component: HasUnsavedChanges = { hasUnsavedChanges: () => dirty };
+    return TestBed.runInInjectionContext(() => unsavedChangesGuard(
+      component, {} as ActivatedRouteSnapshot, {} as RouterStateSnapshot, {} as RouterStateSnapshot
+    ));
+  }
+
+  function answerDialog(result: boolean | undefined) {
+    dialog.open.and.returnValue({ afterClosed: () => of(result) } as unknown as MatDialogRef<DiscardChangesDialogComponent, boolean>);
+  }
+
+  it('should let clean forms go without asking', () => {
+    expect(runGuard(false)).toBeTrue();
+    expect(dialog.open).not.toHaveBeenCalled();
+  });
+
+  it('should ask before leaving a dirty form', () => {
+    answerDialog(true);
+    let result: boolean | undefined;
+    (runGuard(true) as Observable<boolean>).subscribe(value => result = value);
+    expect(result).toBeTrue();
+
+    answerDialog(undefined);
+    (runGuard(true) as Observable<boolean>).subscribe(value => result = value);
+    expect(result).toBeFalse();
+  });
+
+  it('should not block forced logouts', () => {
+    authenticated = false;
+    expect(runGuard(true)).toBeTrue();
+    expect(dialog.open).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
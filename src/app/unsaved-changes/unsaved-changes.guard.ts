@@ -0,0 +1,26 @@
+import { inject } from '@angular/core';
+import { CanDeactivateFn } from '@angular/router';
+import { MatDialog } from '@angular/material/dialog';
+import { map } from 'rxjs/operators';
+import { AuthService } from '../auth/auth.service';
+import { HasUnsavedChanges } from './has-unsaved-changes';
+import { DiscardChangesDialogComponent } from './discard-changes-dialog.component';
+
+export const unsavedChangesGuard: CanDeactivateFn<HasUnsavedChanges> = (component) => {
+  if (!component.hasUnsavedChanges()) {
+    return true;
+  }
+
+  // Logout, idle timeout and expired sessions clear the session before redirecting -
+  // there is nothing left to save, so don't block them with a question
+  if (!inject(AuthService).isAuthenticated()) {
+    return true;
+  }
+
+  return inject(MatDialog).open<DiscardChangesDialogComponent, void, boolean>(DiscardChangesDialogComponent, {
+    width: '400px'
+  }).afterClosed().pipe(
+    // Closing with Esc or a backdrop click means "stay"
+    map(discard => discard === true)
+  );
+};
\ No newline at end of file
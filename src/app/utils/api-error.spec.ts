@@ -0,0 +1,53 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { FormControl, FormGroup } from '@angular/forms';
+
+import { applyApiErrorToForm, parseApiError } from './api-error';
+
+describe('parseApiError', () => {
+  it('should read our backend message and code', () => {
+    const error = new HttpErrorResponse({ status: 400, error: { message: 'Wrong password', code: 'InvalidCurrentPassword' } });
+
+    expect(parseApiError(error)).toEqual({
+      kind: 'http', status: 400, message: 'Wrong password', code: 'InvalidCurrentPassword', fieldErrors: {}
+    });
+  });
+
+  it('should read ASP.NET validation ProblemDetails', () => {
+    const error = new HttpErrorResponse({
+      status: 400,
+      error: { title: 'One or more validation errors occurred.', status: 400, errors: { Email: ['Email is taken'] } }
+    });
+
+    const apiError = parseApiError(error, 'Could not save');
+    expect(apiError.kind).toBe('validation');
+    expect(apiError.message).toBe('Could not save');
+    expect(apiError.fieldErrors).toEqual({ Email: ['Email is taken'] });
+  });
+
+  it('should use the ProblemDetails detail', () => {
+    const error = new HttpErrorResponse({ status: 404, error: { title: 'Not Found', detail: 'Laptop 7 does not exist' } });
+    expect(parseApiError(error).message).toBe('Laptop 7 does not exist');
+  });
+
+  it('should recognise network failures and timeouts', () => {
+    expect(parseApiError(new HttpErrorResponse({ status: 0 })).kind).toBe('network');
+    expect(parseApiError(new HttpErrorResponse({ status: 504 })).kind).toBe('timeout');
+    expect(parseApiError({ name: 'TimeoutError' }).kind).toBe('timeout');
+  });
+});
+
+describe('applyApiErrorToForm', () => {
+  it('should put field errors on matching controls and return the rest', () => {
+    const form = new FormGroup({ email: new FormControl(''), firstName: new FormControl('') });
+    const error = new HttpErrorResponse({
+      status: 400,
+      error: { errors: { Email: ['Email is taken'], '$.firstName': ['Too long'], Other: ['Something else'] } }
+    });
+
+    const remaining = applyApiErrorToForm(form, parseApiError(error));
+
+    expect(form.controls.email.getError('server')).toBe('Email is taken');
+    expect(form.controls.firstName.getError('server')).toBe('Too long');
+    expect(remaining).toBe('Something else');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,108 @@
+/**
+ * One error shape for every failed API call
+ * Understands our backend's { message, code } bodies, ASP.NET ProblemDetails
+ * (including validation error dictionaries) and network/timeout failures
+ */
+
+import { HttpErrorResponse } from '@angular/common/http';
+import { AbstractControl, FormGroup } from '@angular/forms';
+
+export type ApiErrorKind = 'network' | 'timeout' | 'validation' | 'http';
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  status: number;                        // 0 for network and client-side timeouts
+  message: string;                       // Ready to show to the user
+  code?: string;                         // e.g. 'EmailNotVerified', 'InvalidCurrentPassword'
+  fieldErrors: Record<string, string[]>; // Validation messages by field name, as sent by the backend
+}
+
+// ASP.NET Core's RFC 7807 body - validation failures add `errors`
+interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  errors?: Record<string, string[] | string>;
+}
+
+const NETWORK_MESSAGE = "Can't reach the server. Check your connection and try again.";
+const TIMEOUT_MESSAGE = 'The server took too long to answer. Please try again.';
+// Default ProblemDetails title for validation failures - too vague to show on its own
+const GENERIC_VALIDATION_TITLE = 'One or more validation errors occurred.';
+
+export function parseApiError(error: unknown, fallbackMessage = 'Something went wrong. Please try again.'): ApiError {
+  // rxjs timeout() operator
+  if ((error as Error)?.name === 'TimeoutError') {
+    return { kind: 'timeout', status: 0, message: TIMEOUT_MESSAGE, fieldErrors: {} };
+  }
+
+  if (!(error instanceof HttpErrorResponse)) {
+    return { kind: 'http', status: 0, message: fallbackMessage, fieldErrors: {} };
+  }
+
+  if (error.status === 0) {
+    return { kind: 'network', status: 0, message: NETWORK_MESSAGE, fieldErrors: {} };
+  }
+  if (error.status === 408 || error.status === 504) {
+    return { kind: 'timeout', status: error.status, message: TIMEOUT_MESSAGE, fieldErrors: {} };
+  }
+
+  const body: ProblemDetails & { message?: string; code?: string } =
+    error.error && typeof error.error === 'object' ? error.error : {};
+  const fieldErrors = normalizeFieldErrors(body.errors);
+  const hasFieldErrors = Object.keys(fieldErrors).length > 0;
+  const title = body.title !== GENERIC_VALIDATION_TITLE ? body.title : undefined;
+
+  return {
+    kind: hasFieldErrors ? 'validation' : 'http',
+    status: error.status,
+    message: body.message || body.detail || title || (typeof error.error === 'string' && error.error) || fallbackMessage,
+    code: body.code,
+    fieldErrors
+  };
+}
+
+// Worth trying again: no connection, timeouts, rate limits and overloaded/restarting servers
+export function isTransientError(error: unknown): boolean {
+  const apiError = parseApiError(error);
+  return apiError.kind === 'network' || apiError.kind === 'timeout' || [429, 502, 503].includes(apiError.status);
+}
+
+// Puts each field error on the matching form control as { server: message }
+// so it shows in that control's <mat-error>. The error clears once the user edits the field
+// Returns what is left to show above the form: the general message,
+// or for validation errors only the messages that didn't match a control ('' if all did)
+export function applyApiErrorToForm(form: FormGroup, apiError: ApiError): string {
+  const unmatched: string[] = [];
+
+  Object.entries(apiError.fieldErrors).forEach(([field, messages]) => {
+    const control = findControl(form, field);
+    if (control) {
+      control.setErrors({ ...control.errors, server: messages.join(' ') });
+      control.markAsTouched();
+    } else {
+      unmatched.push(...messages);
+    }
+  });
+
+  return apiError.kind === 'validation' ? unmatched.join(' ') : apiError.message;
+}
+
+// Backend keys look like "Email", "$.email" or "Address.City" - our controls are camelCase
+function findControl(form: FormGroup, field: string): AbstractControl | null {
+  const name = field.replace(/^\$\./, '').split('.').pop() || '';
+  const key = Object.keys(form.controls).find(controlName => controlName.toLowerCase() === name.toLowerCase());
+  return key ? form.controls[key] : null;
+}
+
+function normalizeFieldErrors(errors: ProblemDetails['errors']): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  if (!errors || typeof errors !== 'object') {
+    return result;
+  }
+  Object.entries(errors).forEach(([field, messages]) => {
+    result[field] = Array.isArray(messages) ? messages : [String(messages)];
+  });
+  return result;
+}
\ No newline at end of file
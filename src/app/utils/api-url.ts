@@ -0,0 +1,22 @@
+/**
+ * Tells requests to our API apart from requests to other hosts
+ * Compares parsed origins - a plain prefix check would also match hosts like
+ * http://localhost:51950 or https://mycrudapi.somee.com.evil.example
+ */
+
+import { environment } from '../../environments/environment';
+
+// Returns the path (e.g. "/api/laptops") for URLs on the API's origin, null for anything else
+export function getApiPath(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.origin === new URL(environment.apiURL).origin ? parsed.pathname : null;
+  } catch {
+    // Relative or malformed URL - not an API call
+    return null;
+  }
+}
+
+export function isApiUrl(url: string): boolean {
+  return getApiPath(url) !== null;
+}
\ No newline at end of file
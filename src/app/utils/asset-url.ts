@@ -0,0 +1,13 @@
+/**
+ * Turns file paths from the API (e.g. "/uploads/avatar.png") into full URLs
+ * Full URLs - including data: URLs from the fake backend - are returned unchanged
+ */
+
+import { environment } from '../../environments/environment';
+
+export function getApiAssetUrl(path: string): string {
+  if (/^(https?:|data:|blob:)/.test(path)) {
+    return path;
+  }
+  return `${environment.apiURL}${path}`;
+}
\ No newline at end of file
@@ -0,0 +1,30 @@
+/**
+ * Initials and colors for users without a profile picture
+ * The color comes from the email, so a user keeps the same color everywhere
+ */
+
+export interface AvatarUser {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+export function getInitials(user: AvatarUser | null | undefined): string {
+  const first = user?.firstName?.trim().charAt(0) || '';
+  const last = user?.lastName?.trim().charAt(0) || '';
+  if (first || last) {
+    return (first + last).toUpperCase();
+  }
+  // No name yet - fall back to the first letter of the email
+  return (user?.email?.trim().charAt(0) || '?').toUpperCase();
+}
+
+export function getAvatarColor(email: string | null | undefined): string {
+  const key = (email || '').trim().toLowerCase();
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  // Fixed saturation/lightness keeps white text readable on every hue
+  return `hsl(${Math.abs(hash) % 360}, 55%, 45%)`;
+}
\ No newline at end of file
@@ -0,0 +1,17 @@
+/**
+ * Save a Blob to disk through a temporary download link
+ * Works for generated content (recovery codes) and API responses (data export)
+ */
+
+export function downloadFile(content: Blob, fileName: string): void {
+  const url = URL.createObjectURL(content);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  // Firefox and Safari only follow links that are in the document,
+  // and cancel the download if the URL is revoked before it started
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { normalizePhoneNumber } from './phone-number';
+
+describe('normalizePhoneNumber', () => {
+  it('should strip formatting characters', () => {
+    expect(normalizePhoneNumber('+44 20 7946 0958')).toBe('+442079460958');
+    expect(normalizePhoneNumber('+1 (555) 010-9999')).toBe('+15550109999');
+  });
+
+  it('should accept the 00 international prefix', () => {
+    expect(normalizePhoneNumber('0049 30 1234567')).toBe('+49301234567');
+  });
+
+  it('should treat an empty value as no number', () => {
+    expect(normalizePhoneNumber('')).toBe('');
+    expect(normalizePhoneNumber('   ')).toBe('');
+    expect(normalizePhoneNumber(null)).toBe('');
+  });
+
+  it('should reject numbers without a country code', () => {
+    expect(normalizePhoneNumber('020 7946 0958')).toBeNull();
+  });
+
+  it('should reject letters and numbers that are too long or short', () => {
+    expect(normalizePhoneNumber('+44 20 CALL ME')).toBeNull();
+    expect(normalizePhoneNumber('+1234567890123456')).toBeNull();
+    expect(normalizePhoneNumber('+1234')).toBeNull();
+  });
+});
\ No newline at end of file
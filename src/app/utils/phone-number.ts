@@ -0,0 +1,33 @@
+/**
+ * Phone numbers are stored in E.164 format: "+" followed by up to 15 digits, e.g. +442079460958
+ * We don't guess countries - the user types the number with its country code
+ */
+
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+
+// Returns the E.164 form, '' for an empty input, or null if it can't be a valid number
+export function normalizePhoneNumber(input: string | null | undefined): string | null {
+  const trimmed = (input || '').trim();
+  if (!trimmed) {
+    return '';
+  }
+
+  // Spaces, dashes, dots and brackets are just formatting
+  if (!/^(\+|00)?[\d\s().-]+$/.test(trimmed)) {
+    return null;
+  }
+  const international = trimmed.startsWith('+') || trimmed.startsWith('00');
+  const digits = trimmed.replace(/\D/g, '').replace(/^00/, '');
+
+  // Country codes never start with 0, and E.164 allows at most 15 digits
+  if (!international || !/^[1-9]\d{7,14}$/.test(digits)) {
+    return null;
+  }
+  return `+${digits}`;
+}
+
+export function phoneNumberValidator(): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    return normalizePhoneNumber(control.value) === null ? { phoneNumber: true } : null;
+  };
+}
\ No newline at end of file
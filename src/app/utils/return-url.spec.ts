@@ -0,0 +1,23 @@
+import { getSafeReturnUrl } from './return-url';
+
+describe('getSafeReturnUrl', () => {
+  it('should keep in-app paths with query params', () => {
+    expect(getSafeReturnUrl('/products/edit/3?tab=details')).toBe('/products/edit/3?tab=details');
+  });
+
+  it('should fall back to the home page for missing values', () => {
+    expect(getSafeReturnUrl(undefined)).toBe('/');
+    expect(getSafeReturnUrl('')).toBe('/');
+  });
+
+  it('should reject URLs pointing to another origin', () => {
+    expect(getSafeReturnUrl('https://evil.example.com')).toBe('/');
+    expect(getSafeReturnUrl('//evil.example.com/path')).toBe('/');
+    expect(getSafeReturnUrl('/\\evil.example.com')).toBe('/');
+    expect(getSafeReturnUrl('javascript:alert(1)')).toBe('/');
+  });
+
+  it('should not return to the login page', () => {
+    expect(getSafeReturnUrl('/login?returnUrl=%2Fprofile')).toBe('/');
+  });
+});
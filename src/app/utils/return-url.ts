@@ -0,0 +1,32 @@
+/**
+ * Return URL helpers for sending users back after login
+ * Only same-origin paths are allowed to avoid open redirects
+ */
+
+export const DEFAULT_RETURN_URL = '/';
+
+export function getSafeReturnUrl(url: string | null | undefined): string {
+  if (!url || typeof url !== 'string') {
+    return DEFAULT_RETURN_URL;
+  }
+
+  // Must be an absolute path inside the app - rejects "//evil.com" and "/\evil.com"
+  if (!url.startsWith('/') || url.startsWith('//') || url.startsWith('/\\')) {
+    return DEFAULT_RETURN_URL;
+  }
+
+  // Let the browser resolve it and make sure we stay on our own origin
+  try {
+    const resolved = new URL(url, window.location.origin);
+    if (resolved.origin !== window.location.origin) {
+      return DEFAULT_RETURN_URL;
+    }
+    // Never bounce back to the login/register pages themselves
+    if (resolved.pathname === '/login' || resolved.pathname === '/register') {
+      return DEFAULT_RETURN_URL;
+    }
+    return resolved.pathname + resolved.search + resolved.hash;
+  } catch {
+    return DEFAULT_RETURN_URL;
+  }
+}
\ No newline at end of file
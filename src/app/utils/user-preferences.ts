@@ -0,0 +1,67 @@
+/**
+ * Language and time zone options for the profile, and date formatting that respects them
+ */
+
+export interface UserPreferences {
+  locale?: string;         // BCP 47 tag, e.g. 'en-GB'
+  timeZone?: string;       // IANA name, e.g. 'Europe/Berlin'
+}
+
+export const SUPPORTED_LOCALES = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'it-IT', label: 'Italiano' },
+  { code: 'pt-BR', label: 'Português (Brasil)' }
+];
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+let timeZones: string[] | null = null;
+
+// All IANA time zones the browser knows - a short fallback list for browsers without supportedValuesOf
+export function getTimeZones(): string[] {
+  if (!timeZones) {
+    timeZones = typeof Intl.supportedValuesOf === 'function'
+      ? Intl.supportedValuesOf('timeZone')
+      : ['UTC', 'Europe/London', 'Europe/Berlin', 'America/New_York', 'America/Chicago', 'America/Los_Angeles', 'Asia/Tokyo', 'Australia/Sydney'];
+    // The browser's own zone isn't always in the list (e.g. 'UTC' in some engines)
+    const browserTimeZone = getBrowserTimeZone();
+    if (!timeZones.includes(browserTimeZone)) {
+      timeZones = [browserTimeZone, ...timeZones];
+    }
+  }
+  return timeZones;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Formats in the user's time zone and language, falling back to the browser's
+export function formatDateTime(
+  value: Date | string | number,
+  preferences: UserPreferences | null | undefined,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) {
+    return '';
+  }
+  const timeZone = preferences?.timeZone && isValidTimeZone(preferences.timeZone) ? preferences.timeZone : undefined;
+  try {
+    return new Intl.DateTimeFormat(preferences?.locale || undefined, { ...options, timeZone }).format(date);
+  } catch {
+    // Unknown locale tag - keep the time zone, use the browser's language
+    return new Intl.DateTimeFormat(undefined, { ...options, timeZone }).format(date);
+  }
+}
\ No newline at end of file
@@ -1,12 +1,13 @@
 import { TestBed } from '@angular/core/testing';
 
 import { WeatherforecastService } from './weatherforecast.service';
+import { provideFakeBackend } from './fake-backend/provide-fake-backend';
 
 describe('WeatherforecastService', () => {
   let service: WeatherforecastService;
 
   beforeEach(() => {
-    TestBed.configureTestingModule({});
+    TestBed.configureTestingModule({ providers: [provideFakeBackend()] });
     service = TestBed.inject(WeatherforecastService);
   });
 
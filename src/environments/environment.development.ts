@@ -1,5 +1,45 @@
+import type { IdentityProviderConfig } from '../app/auth/identity-providers/identity-provider';
+
 export const environment = {
-    apiURL: 'http://localhost:5195'
+    apiURL: 'http://localhost:5195',
+    // Answer API calls from an in-memory fake (src/app/fake-backend) instead of the .NET API
+    // Data survives reloads in localStorage - clear 'fake-backend-db' to start over
+    // Demo accounts: admin@example.com / Admin123!, editor@example.com / Editor123!, viewer@example.com / Viewer123!
+    fakeBackend: {
+        enabled: false,
+        latencyMs: 400,
+        errorRate: 0
+    },
+    // Log out inactive users: warn after timeoutSeconds of no activity,
+    // then log out when the warningSeconds countdown runs out
+    idle: {
+        timeoutSeconds: 30 * 60,
+        warningSeconds: 60
+    },
+    // Rules for new passwords (register, reset, change) - see auth/password-policy
+    passwordPolicy: {
+        minLength: 6,
+        requireUppercase: false,
+        requireLowercase: true,
+        requireDigit: true,
+        requireSymbol: false,
+        blockCommonPasswords: true,
+        disallowPersonalInfo: true
+    },
+    // "Sign in with ..." buttons on the login page (OpenID Connect, authorization code + PKCE)
+    // The mock provider matches a local mock OIDC server, e.g.:
+    //   docker run -p 8080:8080 ghcr.io/navikt/mock-oauth2-server
+    identityProviders: [
+        {
+            id: 'mock',
+            displayName: 'Mock OIDC',
+            icon: 'key',
+            issuer: 'http://localhost:8080/default',
+            clientId: 'angular-app',
+            scope: 'openid profile email',
+            enabled: true
+        }
+    ] as IdentityProviderConfig[]
 };
 
 
@@ -1,3 +1,30 @@
+import type { IdentityProviderConfig } from '../app/auth/identity-providers/identity-provider';
+
 export const environment = {
-    apiURL: 'https://mycrudapi.somee.com'
+    apiURL: 'https://mycrudapi.somee.com',
+    // In-memory fake API for offline development - never enable in production
+    fakeBackend: {
+        enabled: false,
+        latencyMs: 0,
+        errorRate: 0
+    },
+    // Log out inactive users: warn after timeoutSeconds of no activity,
+    // then log out when the warningSeconds countdown runs out
+    idle: {
+        timeoutSeconds: 15 * 60,
+        warningSeconds: 60
+    },
+    // Rules for new passwords (register, reset, change) - see auth/password-policy
+    passwordPolicy: {
+        minLength: 8,
+        requireUppercase: true,
+        requireLowercase: true,
+        requireDigit: true,
+        requireSymbol: true,
+        blockCommonPasswords: true,
+        disallowPersonalInfo: true
+    },
+    // "Sign in with ..." buttons on the login page (OpenID Connect, authorization code + PKCE)
+    // Add an entry and set enabled: true to offer a provider
+    identityProviders: [] as IdentityProviderConfig[]
 };